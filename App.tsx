@@ -4,10 +4,38 @@ import { CanvasStage } from './components/CanvasStage';
 import { ControlDock } from './components/ControlDock';
 import { TopPanel } from './components/TopPanel';
 import { SettingsDialog } from './components/SettingsDialog';
-import { AppMode, AiFeature, CanvasState, BG_COLORS } from './types';
-import { geminiLive } from './services/geminiService';
-import { aliyunAsr } from './services/aliyunAsrService';
-import { webSpeech } from './services/webSpeechService';
+import { RecoveryDialog } from './components/RecoveryDialog';
+import { MixerPanel } from './components/MixerPanel';
+import { DevicePanel } from './components/DevicePanel';
+import { SourceRecoveryDialog } from './components/SourceRecoveryDialog';
+import { CameraStylePanel } from './components/CameraStylePanel';
+import { BackgroundPanel } from './components/BackgroundPanel';
+import { AppMode, AiFeature, CanvasBackground, CanvasState, CaptionStyle, ChapterMarker, ConnectionState, DEFAULT_CAPTION_STYLE, DEFAULT_PROMPTER_STYLE, DEFAULT_SLATE_STYLE, LostSource, PrompterStyle, Scene, SlateStyle, SpeechProviderId } from './types';
+import {
+  DEFAULT_SPEECH_PROVIDERS,
+  disconnectAllSpeechProviders,
+  getSpeechProvider,
+  pauseAllSpeechProviders,
+  resumeAllSpeechProviders,
+  setSpeechInputStream
+} from './services/speechProviders';
+import { loadSetting, saveSetting } from './services/settingsStore';
+import { TranscriptTimeline } from './services/transcriptTimeline';
+import { TranscriptStore } from './services/transcriptStore';
+import { DEFAULT_PACING_SETTINGS, PacingSettings, PrompterMode } from './services/prompterPacer';
+import { parseScript, spokenText } from './services/scriptMarkup';
+import { RecordingClock } from './services/recordingClock';
+import { downloadBlob, downloadJson } from './services/fileUtils';
+import { buildCues, DEFAULT_SUBTITLE_OPTIONS, SubtitleOptions, toSrt, toVtt } from './services/subtitles';
+import { recordingStore, RecordingSessionMeta } from './services/recordingStore';
+import { isoRecorder, IsoTrackSource } from './services/isoRecorder';
+import { audioMixer, DEFAULT_DUCKING_SETTINGS, DEFAULT_MIXER_SETTINGS, DuckingSettings, MixerSettings } from './services/audioMixer';
+import { applyMicTrackConstraints, DEFAULT_MIC_PROCESSING, MicProcessingSettings, micProcessor } from './services/micProcessor';
+import { DEFAULT_DEVICE_SELECTION, DeviceSelection, openCameraStream, openScreenStream, stopStream } from './services/mediaDevices';
+import { applyLayout, BUILT_IN_SCENES, createScene } from './services/scenes';
+import { backgroundSegmenter } from './services/backgroundSegmenter';
+import { backgroundLibrary, BUILT_IN_BACKGROUNDS, DEFAULT_BACKGROUND_ID, LoadedBackground } from './services/backgroundLibrary';
+import { canvasSizeFor, DEFAULT_OUTPUT_PROFILE_ID, getOutputProfile, resolveOutputFormat } from './services/outputProfiles';
 
 const DEFAULT_SCRIPT = "Welcome to TuiliRec. This is a demo script for the teleprompter feature. As you speak, these words will light up in real-time, guiding your recording flow perfectly. Try speaking this text now to see the magic happen.";
 
@@ -25,23 +53,82 @@ const App: React.FC = () => {
   const audioCtxRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const dataArrayRef = useRef<Uint8Array | null>(null);
+  const analyserSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+
+  // Camera / mic / resolution choice, remembered across sessions
+  const [deviceSelection, setDeviceSelection] = useState(() => loadSetting('devices', DEFAULT_DEVICE_SELECTION));
+  const [showDevices, setShowDevices] = useState(false);
+  const [showCameraStyle, setShowCameraStyle] = useState(false);
+  const [camBackgroundImage, setCamBackgroundImage] = useState<ImageBitmap | null>(null);
+
+  // Background library (built-ins, then the user's entries from IndexedDB)
+  const [customBackgrounds, setCustomBackgrounds] = useState<LoadedBackground[]>([]);
+  const [showBackgrounds, setShowBackgrounds] = useState(false);
+
+  // Sources that ended mid-session; the canvas shows a slate until they are reconnected
+  const [lostSources, setLostSources] = useState<LostSource[]>([]);
+  const [recoveryDismissed, setRecoveryDismissed] = useState(false);
+  const [slateStyle, setSlateStyle] = useState(() => loadSetting('slate', DEFAULT_SLATE_STYLE));
+  const [prompterStyle, setPrompterStyle] = useState(() => loadSetting('prompterStyle', DEFAULT_PROMPTER_STYLE));
+  const [pacing, setPacing] = useState(() => loadSetting('teleprompterPacing', DEFAULT_PACING_SETTINGS));
 
   // Recorder
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
-  // Dedicated AudioContext for mixing recording audio streams
-  const mixingAudioCtxRef = useRef<AudioContext | null>(null);
+  // Takes interrupted by a crash/reload, offered for recovery on launch
+  const [orphanedSessions, setOrphanedSessions] = useState<RecordingSessionMeta[]>([]);
+  // Timed ASR results for the take currently being recorded
+  const transcriptTimelineRef = useRef(new TranscriptTimeline());
+  // Live, deduplicated transcript for the teleprompter (partials replace themselves)
+  const transcriptStoreRef = useRef(new TranscriptStore());
+  // Recording timeline with paused spans removed, plus a chapter per resume
+  const recordingClockRef = useRef(new RecordingClock());
+  const chaptersRef = useRef<ChapterMarker[]>([]);
+  // Per-source gain/mute for the recording mix (graph lives in audioMixer)
+  const [mixerSettings, setMixerSettings] = useState(() => loadSetting('mixer', DEFAULT_MIXER_SETTINGS));
+  const [duckingSettings, setDuckingSettings] = useState(() => loadSetting('ducking', DEFAULT_DUCKING_SETTINGS));
+  const [showMixer, setShowMixer] = useState(false);
+  // Mic processing chain (feeds the mix and ASR)
+  const [micProcessing, setMicProcessing] = useState(() => loadSetting('micProcessing', DEFAULT_MIC_PROCESSING));
 
   // AI Content State
   const [interviewerQuestion, setInterviewerQuestion] = useState("");
   const [teleprompterScript, setTeleprompterScript] = useState(DEFAULT_SCRIPT);
   const [transcript, setTranscript] = useState("");
+  const [speechConnectionState, setSpeechConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
+  // Teleprompter only: ASR failed or isn't configured, so the prompter scrolls on a timer
+  const [speechLost, setSpeechLost] = useState(false);
+  const [speechProviderIds, setSpeechProviderIds] = useState(() =>
+    loadSetting('speechProviders', DEFAULT_SPEECH_PROVIDERS)
+  );
+  const [subtitleOptions, setSubtitleOptions] = useState(() =>
+    loadSetting('subtitles', DEFAULT_SUBTITLE_OPTIONS)
+  );
+
+  // Live caption burned into the canvas (latest partial/final sentence)
+  const [liveCaption, setLiveCaption] = useState("");
+  const [captionStyle, setCaptionStyle] = useState(() =>
+    loadSetting('captionStyle', DEFAULT_CAPTION_STYLE)
+  );
+  const captionClearTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Output profile (resolution / fps / codec / bitrate)
+  const [outputProfileId, setOutputProfileId] = useState(() =>
+    loadSetting('outputProfile', DEFAULT_OUTPUT_PROFILE_ID)
+  );
+  // Also record mic / system audio / raw camera as separate files
+  const [isoTracksEnabled, setIsoTracksEnabled] = useState(() => loadSetting('isoTracks', false));
+
+  // Scenes (built-ins first, then the user's saved layouts)
+  const [customScenes, setCustomScenes] = useState<Scene[]>(() => loadSetting<Scene[]>('scenes', []));
+  const [activeSceneId, setActiveSceneId] = useState<string | null>(null);
+  const scenes = [...BUILT_IN_SCENES, ...customScenes];
 
   // Canvas State
   const [canvasState, setCanvasState] = useState<CanvasState>({
     width: 2560,
     height: 1440,
-    bgIndex: 0,
+    backgroundId: DEFAULT_BACKGROUND_ID,
     usePadding: true,
     aspectRatio: 1.777,
     camEnabled: true,
@@ -49,57 +136,226 @@ const App: React.FC = () => {
     camY: 1000,
     camSize: 350,
     isFullCam: false,
+    camLayout: 'pip',
+    pipAspect: 16 / 9,
+    splitRatio: 0.4,
+    camSide: 'left',
+    camShape: 'circle',
+    camBorderColor: '#ffffff',
+    camBorderWidth: 0.03,
+    camShadow: 0.3,
+    camMirror: false,
+    camSnap: true,
+    camBackground: 'none',
+    camBlur: 0.5,
     zoom: 1,
     panX: 0,
     panY: 0
   });
 
-  // Handle Resize updates
+  // Handle Resize updates (aspect ratio or output profile)
+  useEffect(() => {
+    const { width: w, height: h } = canvasSizeFor(getOutputProfile(outputProfileId), canvasState.aspectRatio);
+
+    setCanvasState(prev => {
+      // Cam bubble and pan are in canvas pixels; keep them proportional when the base resolution changes
+      const scale = Math.max(w, h) / Math.max(prev.width, prev.height);
+      let cx = prev.camX * scale;
+      let cy = prev.camY * scale;
+      const camSize = prev.camSize * scale;
+
+      // Update cam position if it goes out of bounds roughly
+      if (cx > w) cx = w - camSize - 50;
+      if (cy > h) cy = h - camSize - 50;
+
+      return { ...prev, width: w, height: h, camX: cx, camY: cy, camSize, panX: prev.panX * scale, panY: prev.panY * scale };
+    });
+  }, [canvasState.aspectRatio, outputProfileId]);
+
+
+  useEffect(() => {
+    backgroundLibrary.list()
+      .then(setCustomBackgrounds)
+      .catch(e => console.warn("Background library unavailable", e));
+  }, []);
+
+  const backgrounds: LoadedBackground[] = [
+    ...BUILT_IN_BACKGROUNDS.map(background => ({ background })),
+    ...customBackgrounds
+  ];
+  // A scene may point at an entry that has since been deleted
+  const activeBackground = backgrounds.find(b => b.background.id === canvasState.backgroundId) || backgrounds[0];
+
+  const selectBackground = (backgroundId: string) => setCanvasState(p => ({ ...p, backgroundId }));
+
+  const handleAddBackground = async (background: CanvasBackground, image?: Blob) => {
+    try {
+      const loaded = await backgroundLibrary.add(background, image);
+      setCustomBackgrounds(prev => [...prev, loaded]);
+      selectBackground(background.id);
+    } catch (e: any) {
+      console.error("Adding background failed", e);
+      alert(`Could not add background: ${e.message}`);
+    }
+  };
+
+  const handleUpdateBackground = (background: CanvasBackground) => {
+    setCustomBackgrounds(prev => prev.map(b => b.background.id === background.id ? { ...b, background } : b));
+    backgroundLibrary.update(background).catch(e => console.warn("Saving background failed", e));
+  };
+
+  const handleDeleteBackground = async (id: string) => {
+    const entry = customBackgrounds.find(b => b.background.id === id);
+    if (!entry) return;
+    try {
+      await backgroundLibrary.remove(id);
+    } catch (e: any) {
+      console.error("Deleting background failed", e);
+      alert(`Could not delete background: ${e.message}`);
+      return;
+    }
+    setCustomBackgrounds(prev => prev.filter(b => b.background.id !== id));
+    if (canvasState.backgroundId === id) selectBackground(DEFAULT_BACKGROUND_ID);
+    entry.bitmap?.close();
+    if (entry.thumbnailUrl) URL.revokeObjectURL(entry.thumbnailUrl);
+  };
+
+  // Background effects load the segmentation model on first use
   useEffect(() => {
-    const base = 2560;
-    let w = base;
-    let h = base / canvasState.aspectRatio;
-    if (canvasState.aspectRatio < 1) {
-       h = base;
-       w = base * canvasState.aspectRatio;
+    if (canvasState.camBackground === 'none') return;
+    backgroundSegmenter.load().catch(e => {
+      console.error("Background segmenter failed to load", e);
+      alert(`Background effects are unavailable: ${e.message}\n\nRun "npm run fetch-models" to download the segmentation model.`);
+      setCanvasState(p => ({ ...p, camBackground: 'none' }));
+    });
+  }, [canvasState.camBackground]);
+
+  const handleChangeBackgroundImage = async (file: File) => {
+    try {
+      const bitmap = await createImageBitmap(file);
+      camBackgroundImage?.close();
+      setCamBackgroundImage(bitmap);
+      setCanvasState(p => ({ ...p, camBackground: 'image' }));
+    } catch (e: any) {
+      console.error("Background image failed to load", e);
+      alert(`Could not open that image: ${e.message}`);
     }
-    
-    // Update cam position if it goes out of bounds roughly
-    let cx = canvasState.camX;
-    let cy = canvasState.camY;
-    if (cx > w) cx = w - 400;
-    if (cy > h) cy = h - 400;
+  };
+
+  // Crash recovery: clean up finished takes and look for interrupted ones
+  useEffect(() => {
+    recordingStore.purgeCompleted()
+      .then(() => recordingStore.listOrphaned())
+      .then(setOrphanedSessions)
+      .catch(e => console.warn("Recording recovery check failed", e));
+  }, []);
+
+  const handleRecoverSession = async (session: RecordingSessionMeta) => {
+    try {
+      const blob = await recordingStore.rebuild(session);
+      const suffix = session.track ? `.${session.track}` : '';
+      downloadBlob(blob, `TuiliRec_recovered_${session.startedAt}${suffix}.${session.extension}`);
+    } catch (e: any) {
+      console.error("Recovery failed", e);
+      alert(`Failed to rebuild recording: ${e.message}`);
+    }
+  };
+
+  const handleDiscardSession = async (session: RecordingSessionMeta) => {
+    await recordingStore.discard(session.id);
+    setOrphanedSessions(prev => prev.filter(s => s.id !== session.id));
+  };
+
+  // Wire a (new) camera+mic stream into the canvas, the mic chain and the ring analyser.
+  // The mic chain's output stream is stable, so the mix and ASR keep working across swaps.
+  const attachCameraStream = (cStream: MediaStream) => {
+    setCameraStream(cStream);
+    clearLostSources('camera', 'mic');
+    micProcessor.attach(cStream);
+    if (audioCtxRef.current && analyserRef.current) {
+      analyserSourceRef.current?.disconnect();
+      const source = audioCtxRef.current.createMediaStreamSource(cStream);
+      source.connect(analyserRef.current);
+      analyserSourceRef.current = source;
+    }
+  };
 
-    setCanvasState(prev => ({ ...prev, width: w, height: h, camX: cx, camY: cy }));
-  }, [canvasState.aspectRatio]);
+  const attachScreenStream = (sStream: MediaStream) => {
+    setScreenStream(sStream);
+    audioMixer.setSource('system', sStream);
+    clearLostSources('screen');
+  };
+
+  const markSourceLost = (source: LostSource) => {
+    console.warn(`Capture source ended: ${source}`);
+    setLostSources(prev => prev.includes(source) ? prev : [...prev, source]);
+    setRecoveryDismissed(false);
+  };
+
+  const clearLostSources = (...sources: LostSource[]) => {
+    setLostSources(prev => prev.filter(s => !sources.includes(s)));
+  };
+
+  // "Stop sharing" in the browser bar, or the capture device going away.
+  // (Tracks we stop ourselves don't fire `ended`.)
+  useEffect(() => {
+    const track = screenStream?.getVideoTracks()[0];
+    if (!track) return;
+    const onEnded = () => markSourceLost('screen');
+    track.addEventListener('ended', onEnded);
+    return () => track.removeEventListener('ended', onEnded);
+  }, [screenStream]);
+
+  useEffect(() => {
+    if (!cameraStream) return;
+    const videoTrack = cameraStream.getVideoTracks()[0];
+    const audioTrack = cameraStream.getAudioTracks()[0];
+    const onCameraEnded = () => markSourceLost('camera');
+    const onMicEnded = () => markSourceLost('mic');
+    videoTrack?.addEventListener('ended', onCameraEnded);
+    audioTrack?.addEventListener('ended', onMicEnded);
+
+    // Some browsers only report an unplugged device through devicechange
+    const onDeviceChange = () => {
+      if (videoTrack?.readyState === 'ended') markSourceLost('camera');
+      if (audioTrack?.readyState === 'ended') markSourceLost('mic');
+    };
+    navigator.mediaDevices.addEventListener('devicechange', onDeviceChange);
 
+    return () => {
+      videoTrack?.removeEventListener('ended', onCameraEnded);
+      audioTrack?.removeEventListener('ended', onMicEnded);
+      navigator.mediaDevices.removeEventListener('devicechange', onDeviceChange);
+    };
+  }, [cameraStream]);
 
   // Initialization
   const handleInit = async () => {
     try {
-      const sStream = await navigator.mediaDevices.getDisplayMedia({ 
-        video: { width: { ideal: 3840 }, height: { ideal: 2160 }, frameRate: 60 }, 
-        audio: true 
-      });
-      const cStream = await navigator.mediaDevices.getUserMedia({ 
-        video: { width: { ideal: 1920 }, height: { ideal: 1080 } }, 
-        audio: true 
-      });
-
-      setScreenStream(sStream);
-      setCameraStream(cStream);
+      const sStream = await openScreenStream();
+      const cStream = await openCameraStream(deviceSelection, micProcessing);
 
       // Setup local audio analysis for the ring effect
       const actx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const source = actx.createMediaStreamSource(cStream);
       const analyser = actx.createAnalyser();
       analyser.fftSize = 32;
-      source.connect(analyser);
-      
       audioCtxRef.current = actx;
       analyserRef.current = analyser;
       dataArrayRef.current = new Uint8Array(analyser.frequencyBinCount);
 
+      // The processed mic feeds both the recording mix and the ASR providers
+      micProcessor.applySettings(micProcessing);
+      attachCameraStream(cStream);
+      const processedMic = micProcessor.outputStream!;
+      setSpeechInputStream(processedMic);
+
+      // Build the mixing graph now so levels can be set and metered before recording
+      audioMixer.applySettings(mixerSettings);
+      audioMixer.applyDucking(duckingSettings);
+      audioMixer.setSource('mic', processedMic);
+      attachScreenStream(sStream);
+      await audioMixer.resume();
+
       setMode(AppMode.PREVIEW);
       startAudioLoop();
     } catch (e) {
@@ -108,12 +364,100 @@ const App: React.FC = () => {
     }
   };
 
+  // Hot-swap camera / mic / resolution while previewing
+  const handleChangeDevices = async (selection: DeviceSelection) => {
+    if (mode !== AppMode.PREVIEW) return;
+    const previous = deviceSelection;
+    setDeviceSelection(selection);
+    saveSetting('devices', selection);
+
+    // Release the old devices first: many cameras can't be opened twice
+    stopStream(cameraStream);
+    try {
+      attachCameraStream(await openCameraStream(selection, micProcessing));
+    } catch (e: any) {
+      console.error("Device switch failed", e);
+      alert(`Failed to switch device: ${e.message}`);
+      setDeviceSelection(previous);
+      saveSetting('devices', previous);
+      try {
+        attachCameraStream(await openCameraStream(previous, micProcessing));
+      } catch (err) {
+        console.error("Failed to restore previous devices", err);
+      }
+    }
+  };
+
+  // Re-select a lost source; works mid-recording because the canvas capture and the
+  // mixer's output track stay the same while their inputs are swapped
+  const handleReconnectScreen = async () => {
+    try {
+      const sStream = await openScreenStream();
+      stopStream(screenStream);
+      attachScreenStream(sStream);
+    } catch (e) {
+      console.log("Screen share not restored", e);
+    }
+  };
+
+  const handleReconnectCamera = async (selection: DeviceSelection) => {
+    try {
+      // Keep the old stream until the new one opens: a camera that still works (only the mic
+      // was lost, or the picked device fails) must not be stopped for nothing
+      const cStream = await openCameraStream(selection, micProcessing);
+      stopStream(cameraStream);
+      attachCameraStream(cStream);
+      setDeviceSelection(selection);
+      saveSetting('devices', selection);
+      if (isoRecorder.isActive) {
+        console.warn("Camera/mic ISO tracks stop at the disconnect; the composite continues with the new devices");
+      }
+    } catch (e: any) {
+      console.error("Reconnect failed", e);
+      alert(`Failed to reconnect: ${e.message}`);
+    }
+  };
+
+  const handleChangeSlateStyle = (style: SlateStyle) => {
+    setSlateStyle(style);
+    saveSetting('slate', style);
+  };
+
+  const handleChangePrompterStyle = (style: PrompterStyle) => {
+    setPrompterStyle(style);
+    saveSetting('prompterStyle', style);
+  };
+
+  const handleChangePacing = (settings: PacingSettings) => {
+    setPacing(settings);
+    saveSetting('teleprompterPacing', settings);
+    // Switching into or out of timer mode stops or starts speech recognition
+    if (aiFeature === AiFeature.TELEPROMPTER && (settings.mode === 'timer') !== (pacing.mode === 'timer')) {
+      handleSetAiFeature(AiFeature.TELEPROMPTER, settings.mode);
+    }
+  };
+
+  const handleChangeScreen = async () => {
+    if (mode !== AppMode.PREVIEW) return;
+    try {
+      const sStream = await openScreenStream();
+      stopStream(screenStream);
+      attachScreenStream(sStream);
+    } catch (e) {
+      // Cancelling the browser picker keeps the current share
+      console.log("Screen source unchanged", e);
+    }
+  };
+
   const startAudioLoop = () => {
     const loop = () => {
       if (analyserRef.current && dataArrayRef.current) {
         analyserRef.current.getByteFrequencyData(dataArrayRef.current);
         const sum = dataArrayRef.current.reduce((a, b) => a + b, 0);
-        setAudioLevel(sum / dataArrayRef.current.length);
+        const level = sum / dataArrayRef.current.length;
+        setAudioLevel(level);
+        // Same mic level drives system-audio ducking
+        audioMixer.reportVoiceLevel(level);
       }
       requestAnimationFrame(loop);
     };
@@ -121,141 +465,273 @@ const App: React.FC = () => {
   };
 
   // AI Feature Toggle Logic
-  const handleSetAiFeature = async (feature: AiFeature) => {
+  const handleSetAiFeature = async (feature: AiFeature, pacingMode: PrompterMode = pacing.mode) => {
     setAiFeature(feature);
 
     // Reset states
+    setSpeechLost(false);
     setInterviewerQuestion("");
+    transcriptStoreRef.current.clear();
     setTranscript("");
+    setLiveCaption("");
+
+    // Only one backend runs at a time
+    disconnectAllSpeechProviders();
+    if (feature === AiFeature.NONE) return;
+    // Timed scrolling needs no speech recognition at all
+    if (feature === AiFeature.TELEPROMPTER && pacingMode === 'timer') return;
+
+    // The teleprompter keeps going on its timer when ASR is unavailable; the interviewer can't
+    const handleSpeechFailure = (message: string) => {
+      if (feature === AiFeature.TELEPROMPTER) {
+        console.warn(`${message}; teleprompter falls back to timed scrolling`);
+        setSpeechLost(true);
+        return;
+      }
+      setAiFeature(AiFeature.NONE);
+      alert(message);
+    };
+
+    const providerId = speechProviderIds[feature] || DEFAULT_SPEECH_PROVIDERS[feature];
+    const provider = providerId ? getSpeechProvider(providerId) : undefined;
+    if (!provider) {
+      handleSpeechFailure(`No speech provider configured for ${feature}`);
+      return;
+    }
+
+    // Teleprompter needs the script for language detection / context (just the spoken words,
+    // without markup, cues or notes); interviewer starts blank
+    const scriptContext = feature === AiFeature.TELEPROMPTER ? spokenText(parseScript(teleprompterScript)) : "";
 
-    if (feature === AiFeature.NONE) {
-      // Disconnect all services
-      geminiLive.disconnect();
-      aliyunAsr.disconnect();
-      webSpeech.disconnect();
-    } else if (feature === AiFeature.TELEPROMPTER) {
-      // For Teleprompter: Use Aliyun ASR only (faster, more accurate)
-      const callbacks = {
-        onOpen: () => console.log("Aliyun ASR Connected (Teleprompter)"),
+    try {
+      await provider.connect(feature, scriptContext, {
+        onOpen: () => console.log(`${provider.label} Connected (${feature})`),
         onError: (e: Error) => {
             console.error(e);
-            setAiFeature(AiFeature.NONE);
-            alert(`Aliyun ASR Failed: ${e.message}`);
+            handleSpeechFailure(`${provider.label} Failed: ${e.message}`);
         },
         onInterviewerQuestion: (q: string) => setInterviewerQuestion(q),
-        onTranscriptUpdate: (t: string) => {
-            setTranscript(prev => prev + " " + t);
-        }
-      };
-
-      try {
-        await aliyunAsr.connect(feature, teleprompterScript, callbacks);
-      } catch (e: any) {
-        console.error("Aliyun ASR Error", e);
-        setAiFeature(AiFeature.NONE);
-        alert(`Failed to start Aliyun ASR: ${e.message}`);
-      }
-    } else if (feature === AiFeature.INTERVIEWER) {
-      // For Interviewer: Use Gemini Live (real-time AI conversation)
-      try {
-        await geminiLive.connect(
-          feature,
-          "",
-          {
-            onOpen: () => console.log("Gemini Live Connected (Interviewer)"),
-            onError: (e) => {
-                console.error(e);
-                setAiFeature(AiFeature.NONE);
-                alert(`Gemini Live Failed: ${e.message}`);
-            },
-            onInterviewerQuestion: (q) => setInterviewerQuestion(q),
-            onTranscriptUpdate: (t) => {
-                setTranscript(prev => prev + " " + t);
+        onTranscriptResult: (r) => {
+            if (transcriptStoreRef.current.apply(r)) {
+                setTranscript(transcriptStoreRef.current.text);
             }
-          }
-        );
-      } catch (e: any) {
-        console.error("Gemini Live Error", e);
-        setAiFeature(AiFeature.NONE);
-        alert(`Failed to start Gemini Live: ${e.message}`);
-      }
+            transcriptTimelineRef.current.add(r, provider.id);
+            updateLiveCaption(r.text, r.isFinal);
+        },
+        onConnectionStateChange: setSpeechConnectionState
+      });
+    } catch (e: any) {
+      console.error(`${provider.label} Error`, e);
+      handleSpeechFailure(`Failed to start ${provider.label}: ${e.message}`);
     }
   };
 
+  const updateLiveCaption = (text: string, isFinal: boolean) => {
+    setLiveCaption(text);
+    // Finished sentences linger briefly; a stalled partial is cleared a bit later
+    if (captionClearTimerRef.current) clearTimeout(captionClearTimerRef.current);
+    captionClearTimerRef.current = setTimeout(() => setLiveCaption(""), isFinal ? 2500 : 5000);
+  };
+
+  const handleChangeSpeechProviders = (ids: Record<AiFeature, SpeechProviderId | null>) => {
+    setSpeechProviderIds(ids);
+    saveSetting('speechProviders', ids);
+  };
+
+  const handleChangeSubtitleOptions = (options: SubtitleOptions) => {
+    setSubtitleOptions(options);
+    saveSetting('subtitles', options);
+  };
+
+  const handleChangeOutputProfile = (id: string) => {
+    setOutputProfileId(id);
+    saveSetting('outputProfile', id);
+  };
+
+  const handleChangeMixer = (settings: MixerSettings) => {
+    setMixerSettings(settings);
+    audioMixer.applySettings(settings);
+    saveSetting('mixer', settings);
+  };
+
+  const handleChangeDucking = (settings: DuckingSettings) => {
+    setDuckingSettings(settings);
+    audioMixer.applyDucking(settings);
+    saveSetting('ducking', settings);
+  };
+
+  const handleChangeMicProcessing = (settings: MicProcessingSettings) => {
+    setMicProcessing(settings);
+    micProcessor.applySettings(settings);
+    const micTrack = cameraStream?.getAudioTracks()[0];
+    if (micTrack) applyMicTrackConstraints(micTrack, settings);
+    saveSetting('micProcessing', settings);
+  };
+
+  const handleChangeIsoTracks = (enabled: boolean) => {
+    setIsoTracksEnabled(enabled);
+    saveSetting('isoTracks', enabled);
+  };
+
+  // Scene switching only sets the target layout; CanvasStage animates the transition
+  const handleSelectScene = (scene: Scene) => {
+    setCanvasState(p => applyLayout(p, scene.layout));
+    setActiveSceneId(scene.id);
+  };
+
+  const handleSaveScene = () => {
+    const name = window.prompt("Scene name", `Scene ${customScenes.length + 1}`)?.trim();
+    if (!name) return;
+    const scene = createScene(name, canvasState);
+    const next = [...customScenes, scene];
+    setCustomScenes(next);
+    setActiveSceneId(scene.id);
+    saveSetting('scenes', next);
+  };
+
+  const handleDeleteScene = (scene: Scene) => {
+    if (scene.builtIn) return;
+    const next = customScenes.filter(s => s.id !== scene.id);
+    setCustomScenes(next);
+    if (activeSceneId === scene.id) setActiveSceneId(null);
+    saveSetting('scenes', next);
+  };
+
+  // Number keys 1-9 switch scenes, also while recording
+  useEffect(() => {
+    if (mode === AppMode.IDLE) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      const index = Number(e.key) - 1;
+      if (!Number.isInteger(index) || index < 0 || index >= scenes.length) return;
+      e.preventDefault();
+      handleSelectScene(scenes[index]);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [mode, customScenes]);
+
+  const handleChangeCaptionStyle = (style: CaptionStyle) => {
+    setCaptionStyle(style);
+    saveSetting('captionStyle', style);
+  };
+
   // Recording Logic
-  const startRecording = () => {
+  const startRecording = async () => {
     const canvas = document.querySelector('canvas');
     if (!canvas) return;
 
-    // Use 30fps for better stability and A/V sync
-    const stream = canvas.captureStream(30);
+    const profile = getOutputProfile(outputProfileId);
+    const { mimeType, extension, isFallback } = resolveOutputFormat(profile);
+    if (isFallback) {
+      console.warn(`None of the codecs for "${profile.label}" are supported here, recording as ${mimeType}`);
+    }
 
-    // --- AUDIO MIXING LOGIC START ---
-    // We need to mix system audio and mic audio into a single track,
+    const stream = canvas.captureStream(profile.fps);
+
+    // System audio and mic are mixed into a single track by the audio mixer,
     // otherwise MediaRecorder often only records the first track added.
-    const mixCtx = new (window.AudioContext || (window as any).webkitAudioContext)({
-      sampleRate: 48000, // Standard sample rate for video recording
-      latencyHint: 'playback' // Optimize for consistent timing over low latency
+    const mixedTrack = audioMixer.getOutputTrack();
+    if (mixedTrack) {
+      stream.addTrack(mixedTrack);
+    }
+
+    const rec = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: profile.videoBitsPerSecond,
+      audioBitsPerSecond: profile.audioBitsPerSecond
     });
-    mixingAudioCtxRef.current = mixCtx;
-    const dest = mixCtx.createMediaStreamDestination();
-    let hasAudioSource = false;
 
-    // Mix Screen Audio (System Sound)
-    if (screenStream && screenStream.getAudioTracks().length > 0) {
-      try {
-        const sysTrack = screenStream.getAudioTracks()[0];
-        if (sysTrack.readyState === 'live') {
-           const sysSource = mixCtx.createMediaStreamSource(screenStream);
-           sysSource.connect(dest);
-           hasAudioSource = true;
-        }
-      } catch (e) {
-        console.warn("Error adding screen audio to mix:", e);
-      }
+    // Persist chunks to disk as they arrive so a crash doesn't lose the take.
+    // If storage is unavailable we fall back to keeping chunks in memory.
+    let sessionId: string | null = null;
+    try {
+      sessionId = await recordingStore.start(mimeType, extension);
+    } catch (e) {
+      console.warn("Recording persistence unavailable, buffering in memory:", e);
     }
 
-    // Mix Microphone Audio
-    if (cameraStream && cameraStream.getAudioTracks().length > 0) {
-      try {
-        const micTrack = cameraStream.getAudioTracks()[0];
-        if (micTrack.readyState === 'live') {
-           const micSource = mixCtx.createMediaStreamSource(cameraStream);
-           micSource.connect(dest);
-           hasAudioSource = true;
-        }
-      } catch (e) {
-        console.warn("Error adding mic audio to mix:", e);
-      }
+    // Isolated source tracks, started right before the composite so they line up
+    const recordIso = isoTracksEnabled;
+    if (recordIso) {
+      const sources: IsoTrackSource[] = [];
+      if (cameraStream) sources.push({ kind: 'mic', stream: cameraStream }, { kind: 'camera', stream: cameraStream });
+      if (screenStream) sources.push({ kind: 'system', stream: screenStream });
+      await isoRecorder.start(sources);
     }
 
-    // If we successfully added audio sources, add the mixed track to the recording stream
-    if (hasAudioSource) {
-      const mixedTrack = dest.stream.getAudioTracks()[0];
-      if (mixedTrack) {
-        stream.addTrack(mixedTrack);
+    rec.ondataavailable = (e) => {
+      if (e.data.size === 0) return;
+      if (sessionId) {
+        recordingStore.append(sessionId, e.data);
+      } else {
+        chunksRef.current.push(e.data);
       }
-    }
-    // --- AUDIO MIXING LOGIC END ---
+    };
 
-    const mimeType = MediaRecorder.isTypeSupported('video/mp4') ? 'video/mp4' : 'video/webm';
-    const rec = new MediaRecorder(stream, {
-      mimeType,
-      videoBitsPerSecond: 8000000, // Reduced from 12M for better stability
-      audioBitsPerSecond: 128000
-    });
+    rec.onstart = () => {
+      // Transcript times are relative to the moment the recorder actually started
+      const now = Date.now();
+      recordingClockRef.current.start(now);
+      transcriptTimelineRef.current.begin(recordingClockRef.current);
+      chaptersRef.current = [{ index: 1, title: 'Chapter 1', start: 0, wallClock: new Date(now).toISOString() }];
+    };
 
-    rec.ondataavailable = (e) => {
-      if (e.data.size > 0) chunksRef.current.push(e.data);
+    rec.onpause = () => {
+      recordingClockRef.current.pause(Date.now());
+      setMode(AppMode.PAUSED);
+    };
+
+    rec.onresume = () => {
+      const clock = recordingClockRef.current;
+      const now = Date.now();
+      clock.resume(now);
+      const index = chaptersRef.current.length + 1;
+      chaptersRef.current.push({ index, title: `Chapter ${index}`, start: Math.round(clock.toTimeline(now)), wallClock: new Date(now).toISOString() });
+      setMode(AppMode.RECORDING);
     };
 
-    rec.onstop = () => {
-      const blob = new Blob(chunksRef.current, { type: mimeType });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `TuiliRec_${Date.now()}.${mimeType === 'video/mp4' ? 'mp4' : 'webm'}`;
-      a.click();
+    rec.onstop = async () => {
+      const baseName = `TuiliRec_${Date.now()}`;
+      const transcriptModel = transcriptTimelineRef.current.end(Date.now());
+      const chapters = chaptersRef.current;
+      const isoFiles = recordIso ? await isoRecorder.stop() : [];
+
+      let blob: Blob;
+      try {
+        blob = sessionId
+          ? await recordingStore.finish(sessionId)
+          : new Blob(chunksRef.current, { type: mimeType });
+      } catch (e: any) {
+        console.error("Failed to assemble recording", e);
+        alert(`Failed to assemble recording: ${e.message}. It can be recovered on next launch.`);
+        chunksRef.current = [];
+        setMode(AppMode.PREVIEW);
+        return;
+      }
+      downloadBlob(blob, `${baseName}.${extension}`);
+      isoFiles.forEach(f => downloadBlob(f.blob, `${baseName}.${f.kind}.${f.extension}`));
+      // Structured transcript sidecar (for captions and search)
+      if (transcriptModel.segments.length > 0) {
+        downloadJson(transcriptModel, `${baseName}.transcript.json`);
+
+        if (subtitleOptions.enabled) {
+          const cues = buildCues(transcriptModel, subtitleOptions);
+          downloadBlob(new Blob([toSrt(cues)], { type: 'application/x-subrip' }), `${baseName}.srt`);
+          downloadBlob(new Blob([toVtt(cues)], { type: 'text/vtt' }), `${baseName}.vtt`);
+        }
+      }
+      // Chapter sidecar only when the take was actually paused and resumed
+      if (chapters.length > 1) {
+        downloadJson({
+          version: 1,
+          recordingStartedAt: transcriptModel.recordingStartedAt,
+          durationMs: transcriptModel.durationMs,
+          chapters
+        }, `${baseName}.chapters.json`);
+      }
       chunksRef.current = [];
       setMode(AppMode.PREVIEW);
     };
@@ -266,24 +742,48 @@ const App: React.FC = () => {
     setMode(AppMode.RECORDING);
   };
 
+  // Pausing also silences the speech backend so the interviewer doesn't ask questions
+  // and nothing said off-camera ends up in the transcript
+  const pauseRecording = () => {
+    const rec = mediaRecorderRef.current;
+    if (!rec || rec.state !== 'recording') return;
+    rec.pause();
+    isoRecorder.pause();
+    pauseAllSpeechProviders();
+    if (captionClearTimerRef.current) clearTimeout(captionClearTimerRef.current);
+    setLiveCaption("");
+  };
+
+  const resumeRecording = () => {
+    const rec = mediaRecorderRef.current;
+    if (!rec || rec.state !== 'paused') return;
+    resumeAllSpeechProviders();
+    isoRecorder.resume();
+    rec.resume();
+  };
+
   const stopRecording = () => {
     if (mediaRecorderRef.current) {
+      // Providers outlive the take (preview keeps listening), so wake them back up
+      if (mediaRecorderRef.current.state === 'paused') resumeAllSpeechProviders();
       mediaRecorderRef.current.stop();
     }
-    // Clean up mixing context
-    if (mixingAudioCtxRef.current) {
-      mixingAudioCtxRef.current.close();
-      mixingAudioCtxRef.current = null;
-    }
+    if (isoRecorder.isActive) isoRecorder.stop();
   };
 
   // --- Interaction Handlers ---
   const toggleCam = () => setCanvasState(p => ({ ...p, camEnabled: !p.camEnabled }));
   const toggleFullCam = () => setCanvasState(p => ({ ...p, isFullCam: !p.isFullCam }));
-  const toggleBg = () => setCanvasState(p => ({ ...p, bgIndex: (p.bgIndex + 1) % BG_COLORS.length }));
   const togglePadding = () => setCanvasState(p => ({ ...p, usePadding: !p.usePadding }));
   const changeRatio = (r: number) => setCanvasState(p => ({ ...p, aspectRatio: r }));
+  const toggleCaptions = () => handleChangeCaptionStyle({ ...captionStyle, enabled: !captionStyle.enabled });
   const updateCamPos = (x: number, y: number) => setCanvasState(p => ({ ...p, camX: x, camY: y }));
+  const updateCamBox = (camX: number, camY: number, camSize: number) => setCanvasState(p => ({ ...p, camX, camY, camSize }));
+  const updateCameraStyle = (patch: Partial<CanvasState>) => setCanvasState(p => ({ ...p, ...patch }));
+  const updateSplit = (splitRatio: number) => setCanvasState(p => ({ ...p, splitRatio }));
+  // Picking a layout brings the camera back if it was hidden or full screen
+  const changeCamLayout = (patch: Partial<Pick<CanvasState, 'camLayout' | 'pipAspect' | 'camSide'>>) =>
+    setCanvasState(p => ({ ...p, ...patch, isFullCam: false, camEnabled: true }));
   const updateZoomPan = (zoom: number, panX: number, panY: number) => setCanvasState(p => ({ ...p, zoom, panX, panY }));
 
   return (
@@ -297,6 +797,12 @@ const App: React.FC = () => {
         interviewerText={interviewerQuestion}
         teleprompterScript={teleprompterScript}
         transcript={transcript}
+        connectionState={speechConnectionState}
+        prompterStyle={prompterStyle}
+        onChangePrompterStyle={handleChangePrompterStyle}
+        pacing={pacing}
+        onChangePacing={handleChangePacing}
+        speechLost={speechLost}
       />
 
       {/* Main Canvas Area */}
@@ -305,7 +811,17 @@ const App: React.FC = () => {
         screenStream={screenStream}
         cameraStream={cameraStream}
         audioLevel={audioLevel}
+        caption={liveCaption}
+        captionStyle={captionStyle}
+        screenLost={lostSources.includes('screen')}
+        cameraLost={lostSources.includes('camera')}
+        slate={slateStyle}
+        background={activeBackground.background}
+        backgroundImage={activeBackground.bitmap || null}
+        camBackgroundImage={camBackgroundImage}
         onUpdateCamPos={updateCamPos}
+        onUpdateCamBox={updateCamBox}
+        onUpdateSplit={updateSplit}
         onUpdateZoomPan={updateZoomPan}
       />
 
@@ -313,8 +829,85 @@ const App: React.FC = () => {
       <SettingsDialog 
         isOpen={showSettings}
         currentScript={teleprompterScript}
+        speechProviderIds={speechProviderIds}
         onClose={() => setShowSettings(false)}
         onSave={(s) => setTeleprompterScript(s)}
+        onSaveSpeechProviders={handleChangeSpeechProviders}
+        subtitleOptions={subtitleOptions}
+        onSaveSubtitleOptions={handleChangeSubtitleOptions}
+        captionStyle={captionStyle}
+        onSaveCaptionStyle={handleChangeCaptionStyle}
+        outputProfileId={outputProfileId}
+        onSaveOutputProfile={handleChangeOutputProfile}
+        micProcessing={micProcessing}
+        onSaveMicProcessing={handleChangeMicProcessing}
+        slateStyle={slateStyle}
+        onSaveSlateStyle={handleChangeSlateStyle}
+        prompterStyle={prompterStyle}
+        onSavePrompterStyle={handleChangePrompterStyle}
+        isoTracksEnabled={isoTracksEnabled}
+        onSaveIsoTracks={handleChangeIsoTracks}
+        isRecording={mode === AppMode.RECORDING || mode === AppMode.PAUSED}
+      />
+
+      {/* Audio Mixer */}
+      <MixerPanel
+        isOpen={showMixer && mode !== AppMode.IDLE}
+        settings={mixerSettings}
+        onChange={handleChangeMixer}
+        ducking={duckingSettings}
+        onChangeDucking={handleChangeDucking}
+        onClose={() => setShowMixer(false)}
+      />
+
+      {/* Device Picker */}
+      <DevicePanel
+        isOpen={showDevices && mode !== AppMode.IDLE}
+        selection={deviceSelection}
+        canSwitch={mode === AppMode.PREVIEW}
+        onChange={handleChangeDevices}
+        onChangeScreen={handleChangeScreen}
+        onClose={() => setShowDevices(false)}
+      />
+
+      {/* Background Library */}
+      <BackgroundPanel
+        isOpen={showBackgrounds && mode !== AppMode.IDLE}
+        backgrounds={backgrounds}
+        activeId={activeBackground.background.id}
+        onSelect={selectBackground}
+        onAdd={handleAddBackground}
+        onUpdate={handleUpdateBackground}
+        onDelete={handleDeleteBackground}
+        onClose={() => setShowBackgrounds(false)}
+      />
+
+      {/* Camera Bubble Style */}
+      <CameraStylePanel
+        isOpen={showCameraStyle && mode !== AppMode.IDLE}
+        state={canvasState}
+        onChange={updateCameraStyle}
+        hasBackgroundImage={!!camBackgroundImage}
+        onChangeBackgroundImage={handleChangeBackgroundImage}
+        onClose={() => setShowCameraStyle(false)}
+      />
+
+      {/* Lost screen share / unplugged devices */}
+      <SourceRecoveryDialog
+        lostSources={recoveryDismissed ? [] : lostSources}
+        selection={deviceSelection}
+        isRecording={mode === AppMode.RECORDING || mode === AppMode.PAUSED}
+        onReconnectScreen={handleReconnectScreen}
+        onReconnectCamera={handleReconnectCamera}
+        onDismiss={() => setRecoveryDismissed(true)}
+      />
+
+      {/* Crash Recovery */}
+      <RecoveryDialog
+        sessions={orphanedSessions}
+        onRecover={handleRecoverSession}
+        onDiscard={handleDiscardSession}
+        onClose={() => setOrphanedSessions([])}
       />
 
       {/* Bottom Dock */}
@@ -322,16 +915,34 @@ const App: React.FC = () => {
         mode={mode}
         aiFeature={aiFeature}
         isFullCam={canvasState.isFullCam}
+        canvasState={canvasState}
+        onChangeCamLayout={changeCamLayout}
+        captionsEnabled={captionStyle.enabled}
         onInit={handleInit}
-        onToggleBg={toggleBg}
+        backgroundsOpen={showBackgrounds}
+        onToggleBackgrounds={() => setShowBackgrounds(v => !v)}
         onTogglePadding={togglePadding}
         onChangeRatio={changeRatio}
         onToggleCam={toggleCam}
         onToggleFullCam={toggleFullCam}
+        onToggleCaptions={toggleCaptions}
         onStartRecord={startRecording}
         onStopRecord={stopRecording}
+        onPauseRecord={pauseRecording}
+        onResumeRecord={resumeRecording}
         onSetAiFeature={handleSetAiFeature}
         onOpenSettings={() => setShowSettings(true)}
+        mixerOpen={showMixer}
+        onToggleMixer={() => setShowMixer(v => !v)}
+        devicesOpen={showDevices}
+        onToggleDevices={() => setShowDevices(v => !v)}
+        cameraStyleOpen={showCameraStyle}
+        onToggleCameraStyle={() => setShowCameraStyle(v => !v)}
+        scenes={scenes}
+        activeSceneId={activeSceneId}
+        onSelectScene={handleSelectScene}
+        onSaveScene={handleSaveScene}
+        onDeleteScene={handleDeleteScene}
       />
     </div>
   );
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, ImagePlus } from 'lucide-react';
+import { CanvasBackground, GradientStop, ImageFit } from '../types';
+import { backgroundCss, createBackgroundId, LoadedBackground, sortStops } from '../services/backgroundLibrary';
+
+interface BackgroundPanelProps {
+  isOpen: boolean;
+  backgrounds: LoadedBackground[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAdd: (background: CanvasBackground, image?: Blob) => Promise<void>;
+  onUpdate: (background: CanvasBackground) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+type GradientDraft = { gradient: 'linear' | 'radial'; angle: number; stops: GradientStop[] };
+
+const DEFAULT_GRADIENT: GradientDraft = {
+  gradient: 'linear',
+  angle: 135,
+  stops: [{ offset: 0, color: '#0071e3' }, { offset: 1, color: '#1d1d1f' }],
+};
+
+const FITS: { id: ImageFit; label: string }[] = [
+  { id: 'cover', label: 'Cover' },
+  { id: 'contain', label: 'Contain' },
+  { id: 'blur', label: 'Blurred' },
+];
+
+const MAX_STOPS = 6;
+
+export const BackgroundPanel: React.FC<BackgroundPanelProps> = ({
+  isOpen,
+  backgrounds,
+  activeId,
+  onSelect,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onClose
+}) => {
+  const [solidColor, setSolidColor] = useState('#ffffff');
+  const [imageFit, setImageFit] = useState<ImageFit>('cover');
+  const [gradient, setGradient] = useState<GradientDraft>(DEFAULT_GRADIENT);
+  const [busy, setBusy] = useState(false);
+
+  if (!isOpen) return null;
+
+  const active = backgrounds.find(b => b.background.id === activeId)?.background;
+
+  const add = async (background: CanvasBackground, image?: Blob) => {
+    setBusy(true);
+    try {
+      await onAdd(background, image);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateStop = (index: number, patch: Partial<GradientStop>) =>
+    setGradient(g => ({ ...g, stops: g.stops.map((s, i) => i === index ? { ...s, ...patch } : s) }));
+
+  const draftPreview: CanvasBackground = { id: 'draft', name: 'Draft', kind: 'gradient', ...gradient };
+  const sectionClass = "pt-3 border-t border-gray-200/70 space-y-2";
+
+  return (
+    <div className="fixed top-8 left-8 z-50 w-80 max-h-[80vh] overflow-y-auto bg-white/90 backdrop-blur-2xl border border-white/20 shadow-xl rounded-2xl p-4 animate-in fade-in slide-in-from-top-4 duration-200">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-800">Backgrounds</h3>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+          <X size={16} className="text-gray-500" />
+        </button>
+      </div>
+
+      <div className="space-y-3 text-xs text-gray-600">
+        {/* Library */}
+        <div className="grid grid-cols-5 gap-2">
+          {backgrounds.map(({ background, thumbnailUrl }) => (
+            <div key={background.id} className="relative group">
+              <button
+                onClick={() => onSelect(background.id)}
+                className={`w-full aspect-square rounded-lg border-2 bg-center bg-cover ${background.id === activeId ? 'border-[#0071e3]' : 'border-white/60'}`}
+                style={thumbnailUrl ? { backgroundImage: `url(${thumbnailUrl})` } : { background: backgroundCss(background) }}
+                title={background.name}
+              />
+              {!background.builtIn && (
+                <button
+                  onClick={() => onDelete(background.id)}
+                  className="absolute -top-1 -right-1 hidden group-hover:flex items-center justify-center w-4 h-4 rounded-full bg-gray-500 text-white"
+                  title="Delete background"
+                >
+                  <X size={10} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {active?.kind === 'image' && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">Image fit</span>
+            <div className="flex gap-1">
+              {FITS.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => onUpdate({ ...active, fit: f.id })}
+                  className={`px-2 py-1 rounded-lg ${active.fit === f.id ? 'bg-black/10 text-black' : 'hover:bg-black/5'}`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Upload */}
+        <div className={sectionClass}>
+          <span className="font-medium block">Image</span>
+          <div className="flex items-center gap-2">
+            <select
+              className="bg-gray-50 rounded-lg px-2 py-1.5 border border-gray-200"
+              value={imageFit}
+              onChange={(e) => setImageFit(e.target.value as ImageFit)}
+            >
+              {FITS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+            <label className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-100 hover:bg-gray-200 cursor-pointer font-medium text-gray-700 ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+              <ImagePlus size={14} /> Upload…
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (!file) return;
+                  add({ id: createBackgroundId(), name: file.name, kind: 'image', fit: imageFit, fillColor: '#000000' }, file);
+                }}
+              />
+            </label>
+          </div>
+        </div>
+
+        {/* Solid */}
+        <div className={sectionClass}>
+          <span className="font-medium block">Solid color</span>
+          <div className="flex items-center gap-2">
+            <input type="color" className="w-8 h-8 rounded border border-gray-200" value={solidColor} onChange={(e) => setSolidColor(e.target.value)} />
+            <span className="font-mono flex-1">{solidColor}</span>
+            <button
+              onClick={() => add({ id: createBackgroundId(), name: solidColor, kind: 'solid', color: solidColor })}
+              disabled={busy}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-gray-100 hover:bg-gray-200 font-medium text-gray-700 disabled:opacity-50"
+            >
+              <Plus size={14} /> Add
+            </button>
+          </div>
+        </div>
+
+        {/* Gradient editor */}
+        <div className={sectionClass}>
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Gradient</span>
+            <div className="flex gap-1">
+              {(['linear', 'radial'] as const).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setGradient(g => ({ ...g, gradient: type }))}
+                  className={`px-2 py-1 rounded-lg capitalize ${gradient.gradient === type ? 'bg-black/10 text-black' : 'hover:bg-black/5'}`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="h-14 rounded-lg border border-gray-200" style={{ background: backgroundCss(draftPreview) }} />
+
+          {gradient.gradient === 'linear' && (
+            <label className="flex items-center justify-between gap-2">
+              <span>Angle ({gradient.angle}°)</span>
+              <input type="range" min={0} max={360} step={5} value={gradient.angle}
+                onChange={(e) => setGradient(g => ({ ...g, angle: Number(e.target.value) }))} />
+            </label>
+          )}
+
+          {gradient.stops.map((stop, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input type="color" className="w-6 h-6 rounded border border-gray-200" value={stop.color}
+                onChange={(e) => updateStop(i, { color: e.target.value })} />
+              <input type="range" className="flex-1" min={0} max={1} step={0.01} value={stop.offset}
+                onChange={(e) => updateStop(i, { offset: Number(e.target.value) })} />
+              <span className="w-8 text-right tabular-nums">{Math.round(stop.offset * 100)}%</span>
+              <button
+                onClick={() => setGradient(g => ({ ...g, stops: g.stops.filter((_, j) => j !== i) }))}
+                disabled={gradient.stops.length <= 2}
+                className="p-1 rounded hover:bg-black/5 disabled:opacity-30"
+                title="Remove stop"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => setGradient(g => ({ ...g, stops: [...g.stops, { offset: 0.5, color: '#ffffff' }] }))}
+              disabled={gradient.stops.length >= MAX_STOPS}
+              className="flex-1 px-3 py-1.5 rounded-lg hover:bg-black/5 font-medium disabled:opacity-50"
+            >
+              Add stop
+            </button>
+            <button
+              onClick={() => add({
+                id: createBackgroundId(),
+                name: `${gradient.gradient === 'radial' ? 'Radial' : 'Linear'} gradient`,
+                kind: 'gradient',
+                ...gradient,
+                stops: sortStops(gradient.stops),
+              })}
+              disabled={busy}
+              className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg bg-gray-100 hover:bg-gray-200 font-medium text-gray-700 disabled:opacity-50"
+            >
+              <Plus size={14} /> Save gradient
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
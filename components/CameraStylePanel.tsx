@@ -0,0 +1,146 @@
+import React from 'react';
+import { X, Circle, Squircle, SquareRoundCorner } from 'lucide-react';
+import { CamBackground, CamShape, CanvasState } from '../types';
+
+type CameraStyle = Pick<CanvasState,
+  'camShape' | 'camBorderColor' | 'camBorderWidth' | 'camShadow' | 'camMirror' | 'camSnap' | 'camBackground' | 'camBlur'>;
+
+interface CameraStylePanelProps {
+  isOpen: boolean;
+  state: CanvasState;
+  onChange: (patch: Partial<CameraStyle>) => void;
+  hasBackgroundImage: boolean;
+  onChangeBackgroundImage: (file: File) => void;
+  onClose: () => void;
+}
+
+const BACKGROUNDS: { id: CamBackground; label: string }[] = [
+  { id: 'none', label: 'Original' },
+  { id: 'blur', label: 'Blur' },
+  { id: 'wallpaper', label: 'Wallpaper' },
+  { id: 'image', label: 'Image' },
+  { id: 'cutout', label: 'Cut out (no bubble)' },
+];
+
+const SHAPES: { id: CamShape; label: string; icon: React.ReactNode }[] = [
+  { id: 'circle', label: 'Circle', icon: <Circle size={16} /> },
+  { id: 'rounded', label: 'Rounded square', icon: <SquareRoundCorner size={16} /> },
+  { id: 'squircle', label: 'Squircle', icon: <Squircle size={16} /> },
+];
+
+// Look of the camera bubble. Position and size are edited on the canvas itself.
+export const CameraStylePanel: React.FC<CameraStylePanelProps> = ({
+  isOpen,
+  state,
+  onChange,
+  hasBackgroundImage,
+  onChangeBackgroundImage,
+  onClose
+}) => {
+  if (!isOpen) return null;
+
+  // Shape only applies to the square bubble; pip-rect and split panes are always rounded rects
+  const shapeEditable = state.camLayout === 'pip';
+
+  return (
+    <div className="fixed top-8 right-8 z-50 w-72 bg-white/90 backdrop-blur-2xl border border-white/20 shadow-xl rounded-2xl p-4 animate-in fade-in slide-in-from-top-4 duration-200">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-800">Camera Style</h3>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+          <X size={16} className="text-gray-500" />
+        </button>
+      </div>
+
+      <div className="space-y-3 text-xs text-gray-600">
+        <div>
+          <span className="font-medium block mb-1">Shape</span>
+          <div className={`flex gap-1 ${shapeEditable ? '' : 'opacity-40 pointer-events-none'}`}>
+            {SHAPES.map(shape => (
+              <button
+                key={shape.id}
+                onClick={() => onChange({ camShape: shape.id })}
+                className={`flex-1 flex items-center justify-center p-2 rounded-lg transition-colors ${state.camShape === shape.id ? 'bg-black/10 text-black' : 'hover:bg-black/5 text-gray-500'}`}
+                title={shape.label}
+              >
+                {shape.icon}
+              </button>
+            ))}
+          </div>
+          {!shapeEditable && <p className="mt-1 text-gray-400">Switch to the circle PIP layout to change the shape.</p>}
+        </div>
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="font-medium">Border</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="range" min={0} max={0.1} step={0.005}
+              value={state.camBorderWidth}
+              onChange={(e) => onChange({ camBorderWidth: Number(e.target.value) })}
+            />
+            <input
+              type="color"
+              className="w-6 h-6 rounded border border-gray-200"
+              value={state.camBorderColor}
+              onChange={(e) => onChange({ camBorderColor: e.target.value })}
+            />
+          </div>
+        </label>
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="font-medium">Shadow</span>
+          <input
+            type="range" min={0} max={1} step={0.05}
+            value={state.camShadow}
+            onChange={(e) => onChange({ camShadow: Number(e.target.value) })}
+          />
+        </label>
+
+        <label className="flex items-center justify-between">
+          <span className="font-medium">Mirror camera</span>
+          <input type="checkbox" checked={state.camMirror} onChange={(e) => onChange({ camMirror: e.target.checked })} />
+        </label>
+
+        <label className="flex items-center justify-between">
+          <span className="font-medium">Snap to corners &amp; safe margins</span>
+          <input type="checkbox" checked={state.camSnap} onChange={(e) => onChange({ camSnap: e.target.checked })} />
+        </label>
+
+        <div className="pt-3 border-t border-gray-200/70 space-y-2">
+          <label className="flex items-center justify-between gap-2">
+            <span className="font-medium">Background</span>
+            <select
+              className="bg-gray-50 rounded-lg px-2 py-1 border border-gray-200 focus:ring-2 focus:ring-blue-500"
+              value={state.camBackground}
+              onChange={(e) => onChange({ camBackground: e.target.value as CamBackground })}
+            >
+              {BACKGROUNDS.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+            </select>
+          </label>
+          {state.camBackground === 'blur' && (
+            <label className="flex items-center justify-between gap-2">
+              <span>Blur strength</span>
+              <input type="range" min={0.1} max={1} step={0.05} value={state.camBlur}
+                onChange={(e) => onChange({ camBlur: Number(e.target.value) })} />
+            </label>
+          )}
+          {state.camBackground === 'image' && (
+            <label className="block">
+              <span className="block mb-1">{hasBackgroundImage ? 'Replace image' : 'Choose an image'}</span>
+              <input
+                type="file"
+                accept="image/*"
+                className="w-full text-xs"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onChangeBackgroundImage(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          )}
+          <p className="text-gray-400">Runs on this device; the camera never leaves your machine.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
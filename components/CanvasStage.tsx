@@ -1,34 +1,279 @@
-import React, { useRef, useEffect } from 'react';
-import { CanvasState, BG_COLORS } from '../types';
+import React, { useRef, useEffect, useState } from 'react';
+import { CamShape, CanvasBackground, CanvasState, CaptionStyle, SlateStyle } from '../types';
+import { wrapText } from '../services/subtitles';
+import { backgroundSegmenter } from '../services/backgroundSegmenter';
+import { linearGradientLine, sortStops } from '../services/backgroundLibrary';
+import {
+  computeLayout,
+  dividerRect,
+  pointInRect,
+  Rect,
+  ResizeCorner,
+  resizeAroundCenter,
+  resizeFromCorner,
+  snapCamPosition,
+  splitRatioAt
+} from '../services/canvasLayout';
 
 interface CanvasStageProps {
   state: CanvasState;
   screenStream: MediaStream | null;
   cameraStream: MediaStream | null;
   audioLevel: number;
+  caption: string;
+  captionStyle: CaptionStyle;
+  // Sources that ended; a slate is drawn in their place
+  screenLost: boolean;
+  cameraLost: boolean;
+  slate: SlateStyle;
+  // Active library background; image entries pass their decoded bitmap
+  background: CanvasBackground;
+  backgroundImage: ImageBitmap | null;
+  // Uploaded replacement for the presenter's background ('image' effect)
+  camBackgroundImage: ImageBitmap | null;
   onUpdateCamPos: (x: number, y: number) => void;
+  onUpdateCamBox: (x: number, y: number, size: number) => void;
+  onUpdateSplit: (ratio: number) => void;
   onUpdateZoomPan: (zoom: number, panX: number, panY: number) => void;
 }
 
+// Draws the live caption in canvas space (after the zoom transform is restored, so it
+// stays put while zooming/panning and ends up in the recorded frames)
+const drawCaptions = (ctx: CanvasRenderingContext2D, W: number, H: number, text: string, style: CaptionStyle) => {
+  if (!style.enabled || !text.trim()) return;
+
+  const fontSize = Math.round(H * style.fontScale);
+  const lineHeight = fontSize * 1.3;
+  const maxWidth = W * style.maxWidth;
+  ctx.save();
+  ctx.font = `${style.fontWeight} ${fontSize}px ${style.fontFamily}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  // Keep the newest lines; live captions grow at the end
+  const lines = wrapText(text, maxWidth, s => ctx.measureText(s).width, style.cjkLineBreaking).slice(-style.maxLines);
+  const blockH = lines.length * lineHeight;
+  const margin = H * style.margin;
+  const top = style.position === 'top'
+    ? margin
+    : style.position === 'middle'
+      ? (H - blockH) / 2
+      : H - margin - blockH;
+
+  if (style.showBackground) {
+    const boxW = Math.max(...lines.map(l => ctx.measureText(l).width)) + fontSize * 1.2;
+    const boxH = blockH + fontSize * 0.6;
+    ctx.fillStyle = style.backgroundColor;
+    ctx.beginPath();
+    if (ctx.roundRect) {
+      ctx.roundRect((W - boxW) / 2, top - fontSize * 0.3, boxW, boxH, fontSize * 0.35);
+    } else {
+      ctx.rect((W - boxW) / 2, top - fontSize * 0.3, boxW, boxH);
+    }
+    ctx.fill();
+  } else {
+    // Without a box, a soft shadow keeps text readable on busy backgrounds
+    ctx.shadowColor = 'rgba(0,0,0,0.8)';
+    ctx.shadowBlur = fontSize * 0.25;
+  }
+
+  ctx.fillStyle = style.textColor;
+  lines.forEach((line, i) => {
+    ctx.fillText(line, W / 2, top + lineHeight * (i + 0.5));
+  });
+  ctx.restore();
+};
+
+// Placeholder slate filling the given box (caller sets up any clip path)
+const drawSlate = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, title: string, subtitle: string, style: SlateStyle) => {
+  ctx.save();
+  ctx.fillStyle = style.backgroundColor;
+  ctx.fillRect(x, y, w, h);
+  ctx.fillStyle = style.textColor;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const titleSize = Math.max(12, Math.min(h * 0.08, (w * 1.6) / Math.max(title.length, 1)));
+  ctx.font = `600 ${titleSize}px Inter, "PingFang SC", "Microsoft YaHei", sans-serif`;
+  ctx.fillText(title, x + w / 2, y + h / 2 - (subtitle ? titleSize * 0.5 : 0));
+  if (subtitle) {
+    ctx.globalAlpha = 0.6;
+    ctx.font = `400 ${titleSize * 0.5}px Inter, "PingFang SC", "Microsoft YaHei", sans-serif`;
+    ctx.fillText(subtitle, x + w / 2, y + h / 2 + titleSize * 0.6);
+  }
+  ctx.restore();
+};
+
+type FitSource = HTMLVideoElement | HTMLCanvasElement | ImageBitmap;
+
+// Draw a video (or canvas/image) into a box: cover crops to fill, contain letterboxes
+const drawVideoFit = (ctx: CanvasRenderingContext2D, video: FitSource, box: Rect, fit: 'cover' | 'contain', mirror = false) => {
+  const vw = video instanceof HTMLVideoElement ? video.videoWidth : video.width;
+  const vh = video instanceof HTMLVideoElement ? video.videoHeight : video.height;
+  if (!vw || !vh) return;
+  const scale = fit === 'cover'
+    ? Math.max(box.w / vw, box.h / vh)
+    : Math.min(box.w / vw, box.h / vh);
+  const dw = vw * scale;
+  const dh = vh * scale;
+  ctx.save();
+  if (mirror) {
+    // Flip around the box's vertical centre line
+    ctx.translate(box.x * 2 + box.w, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(video, box.x + (box.w - dw) / 2, box.y + (box.h - dh) / 2, dw, dh);
+  ctx.restore();
+};
+
+const roundRectPath = (ctx: CanvasRenderingContext2D, r: Rect, radius: number) => {
+  ctx.beginPath();
+  if (ctx.roundRect) {
+    ctx.roundRect(r.x, r.y, r.w, r.h, Math.max(0, Math.min(radius, r.w / 2, r.h / 2)));
+  } else {
+    ctx.rect(r.x, r.y, r.w, r.h);
+  }
+};
+
+// Superellipse |x|^4 + |y|^4 = 1: the "squircle" of app icons
+const squirclePath = (ctx: CanvasRenderingContext2D, r: Rect) => {
+  const cx = r.x + r.w / 2;
+  const cy = r.y + r.h / 2;
+  const steps = 64;
+  ctx.beginPath();
+  for (let i = 0; i <= steps; i++) {
+    const t = (i / steps) * Math.PI * 2;
+    const cos = Math.cos(t);
+    const sin = Math.sin(t);
+    const x = cx + (r.w / 2) * Math.sign(cos) * Math.sqrt(Math.abs(cos));
+    const y = cy + (r.h / 2) * Math.sign(sin) * Math.sqrt(Math.abs(sin));
+    if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+  }
+  ctx.closePath();
+};
+
+const camShapePath = (ctx: CanvasRenderingContext2D, r: Rect, radius: number, shape: CamShape) => {
+  if (shape === 'squircle') squirclePath(ctx, r);
+  else roundRectPath(ctx, r, radius);
+};
+
+// Paint a library background into a box (the whole canvas, or behind the presenter)
+const paintBackground = (ctx: CanvasRenderingContext2D, box: Rect, bg: CanvasBackground, image: ImageBitmap | null) => {
+  ctx.save();
+  if (bg.kind === 'solid') {
+    ctx.fillStyle = bg.color;
+    ctx.fillRect(box.x, box.y, box.w, box.h);
+  } else if (bg.kind === 'gradient') {
+    let grad: CanvasGradient;
+    if (bg.gradient === 'radial') {
+      const cx = box.x + box.w / 2;
+      const cy = box.y + box.h / 2;
+      grad = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.hypot(box.w, box.h) / 2);
+    } else {
+      const { x0, y0, x1, y1 } = linearGradientLine(bg.angle, box.x, box.y, box.w, box.h);
+      grad = ctx.createLinearGradient(x0, y0, x1, y1);
+    }
+    sortStops(bg.stops).forEach(s => grad.addColorStop(Math.max(0, Math.min(1, s.offset)), s.color));
+    ctx.fillStyle = grad;
+    ctx.fillRect(box.x, box.y, box.w, box.h);
+  } else {
+    ctx.fillStyle = bg.fillColor;
+    ctx.fillRect(box.x, box.y, box.w, box.h);
+    if (image) {
+      ctx.beginPath();
+      ctx.rect(box.x, box.y, box.w, box.h);
+      ctx.clip();
+      if (bg.fit === 'blur') {
+        // Zoom in a little so the blur doesn't pull in transparent edges
+        const grow = Math.max(box.w, box.h) * 0.05;
+        ctx.filter = `blur(${Math.round(Math.max(box.w, box.h) * 0.015)}px)`;
+        drawVideoFit(ctx, image, { x: box.x - grow, y: box.y - grow, w: box.w + grow * 2, h: box.h + grow * 2 }, 'cover');
+      } else {
+        drawVideoFit(ctx, image, box, bg.fit);
+      }
+    }
+  }
+  ctx.restore();
+};
+
+interface Wallpaper {
+  background: CanvasBackground;
+  image: ImageBitmap | null;
+}
+
+// Camera with the background effect applied (caller sets up the clip). Shows the raw frame
+// until the segmenter has produced its first mask.
+const drawCameraFrame = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  box: Rect,
+  state: CanvasState,
+  bgImage: ImageBitmap | null,
+  wallpaper: Wallpaper
+) => {
+  const person = state.camBackground !== 'none' ? backgroundSegmenter.process(video) : null;
+  if (!person) {
+    drawVideoFit(ctx, video, box, 'cover', state.camMirror);
+    return;
+  }
+
+  if (state.camBackground === 'blur') {
+    ctx.save();
+    ctx.filter = `blur(${Math.round(state.camBlur * box.h * 0.05)}px)`;
+    drawVideoFit(ctx, video, box, 'cover', state.camMirror);
+    ctx.restore();
+  } else if (state.camBackground === 'image' && bgImage) {
+    drawVideoFit(ctx, bgImage, box, 'cover');
+  } else {
+    // Wallpaper, and the fallback for cutout wherever there is no screen behind the presenter
+    paintBackground(ctx, box, wallpaper.background, wallpaper.image);
+  }
+  drawVideoFit(ctx, person, box, 'cover', state.camMirror);
+};
+
+const RESIZE_CORNERS: ResizeCorner[] = ['nw', 'ne', 'sw', 'se'];
+
 export const CanvasStage: React.FC<CanvasStageProps> = ({
   state,
   screenStream,
   cameraStream,
   audioLevel,
+  caption,
+  captionStyle,
+  screenLost,
+  cameraLost,
+  slate,
+  background,
+  backgroundImage,
+  camBackgroundImage,
   onUpdateCamPos,
+  onUpdateCamBox,
+  onUpdateSplit,
   onUpdateZoomPan
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const videoScreenRef = useRef<HTMLVideoElement>(document.createElement('video'));
   const videoCamRef = useRef<HTMLVideoElement>(document.createElement('video'));
   const animationFrameRef = useRef<number>(0);
+  const [hover, setHover] = useState<'camera' | 'divider' | null>(null);
   
-  // Internal state for smooth animations
-  const smoothState = useRef({
-    zoom: 1,
-    panX: 0,
-    panY: 0
-  });
+  // Internal state for smooth animations. Everything a scene or layout switch can change
+  // eases towards its target: the screen/camera rects from computeLayout, plus 0..1 mixes
+  // for the booleans so modes crossfade.
+  const smoothState = useRef((() => {
+    const frame = computeLayout(state);
+    return {
+      zoom: 1,
+      panX: 0,
+      panY: 0,
+      screen: { ...frame.screen },
+      screenRadius: frame.screenRadius,
+      cam: { ...frame.cam },
+      camRadius: frame.camRadius,
+      fullCam: state.isFullCam ? 1 : 0,
+      camAlpha: state.camEnabled ? 1 : 0,
+      padding: state.usePadding ? 1 : 0
+    };
+  })());
 
   // Attach streams to hidden video elements
   useEffect(() => {
@@ -58,15 +303,30 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
 
     const render = () => {
       // 1. Smooth Interpolation
-      smoothState.current.zoom += (state.zoom - smoothState.current.zoom) * 0.08;
-      smoothState.current.panX += (state.panX - smoothState.current.panX) * 0.08;
-      smoothState.current.panY += (state.panY - smoothState.current.panY) * 0.08;
+      const smooth = smoothState.current;
+      const ease = (current: number, target: number) => current + (target - current) * 0.08;
+      const easeRect = (current: Rect, target: Rect) => {
+        current.x = ease(current.x, target.x);
+        current.y = ease(current.y, target.y);
+        current.w = ease(current.w, target.w);
+        current.h = ease(current.h, target.h);
+      };
+      const frame = computeLayout(state);
+      smooth.zoom = ease(smooth.zoom, state.zoom);
+      smooth.panX = ease(smooth.panX, state.panX);
+      smooth.panY = ease(smooth.panY, state.panY);
+      easeRect(smooth.screen, frame.screen);
+      easeRect(smooth.cam, frame.cam);
+      smooth.screenRadius = ease(smooth.screenRadius, frame.screenRadius);
+      smooth.camRadius = ease(smooth.camRadius, frame.camRadius);
+      smooth.fullCam = ease(smooth.fullCam, state.isFullCam ? 1 : 0);
+      // A camera pane can't be switched off; only the PIP overlay hides
+      smooth.camAlpha = ease(smooth.camAlpha, state.camEnabled || frame.split ? 1 : 0);
+      smooth.padding = ease(smooth.padding, state.usePadding ? 1 : 0);
 
       const W = state.width;
       const H = state.height;
-      const zoom = smoothState.current.zoom;
-      const panX = smoothState.current.panX;
-      const panY = smoothState.current.panY;
+      const { zoom, panX, panY } = smooth;
 
       // Clear Canvas
       ctx.clearRect(0,0,W,H);
@@ -77,138 +337,135 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
       ctx.scale(zoom, zoom);
       ctx.translate(-W / 2 - panX, -H / 2 - panY);
 
-      if (state.isFullCam) {
-          // --- FULL CAMERA MODE ---
-          // Draw Background (Fallback)
-          const grad = ctx.createLinearGradient(0, 0, W, H);
-          const colors = BG_COLORS[state.bgIndex];
-          grad.addColorStop(0, colors[0]);
-          grad.addColorStop(1, colors[1]);
-          ctx.fillStyle = grad;
-          ctx.fillRect(0, 0, W, H);
-
-          const vCam = videoCamRef.current;
-          if (vCam.readyState >= 2) {
-              const vw = vCam.videoWidth;
-              const vh = vCam.videoHeight;
-              
-              // Object Fit: Cover
-              // Scale to fill the larger dimension relative to canvas
-              const scale = Math.max(W / vw, H / vh);
-              const dw = vw * scale;
-              const dh = vh * scale;
-              const offsetX = (W - dw) / 2;
-              const offsetY = (H - dh) / 2;
-              
-              ctx.drawImage(vCam, offsetX, offsetY, dw, dh);
-          } else {
-              // Placeholder if cam is loading in full mode
-               ctx.fillStyle = "#111";
-               ctx.fillRect(0, 0, W, H);
-          }
+      // 2. Draw Background
+      const wallpaper = { background, image: backgroundImage };
+      paintBackground(ctx, { x: 0, y: 0, w: W, h: H }, background, backgroundImage);
 
-      } else {
-          // --- STANDARD SCREEN SHARE MODE ---
-          
-          // 2. Draw Background
-          const grad = ctx.createLinearGradient(0, 0, W, H);
-          const colors = BG_COLORS[state.bgIndex];
-          grad.addColorStop(0, colors[0]);
-          grad.addColorStop(1, colors[1]);
-          ctx.fillStyle = grad;
-          ctx.fillRect(0, 0, W, H);
+      if (smooth.fullCam < 0.999) {
+          // --- SCREEN SHARE LAYOUTS ---
 
           // 3. Draw Screen Share
           const vScreen = videoScreenRef.current;
-          if (vScreen.readyState >= 2) {
-            const padding = state.usePadding ? H * 0.08 : 0;
-            const screenW = W - padding * 2;
-            const screenH = H - padding * 2;
+          if (screenLost || vScreen.readyState >= 2) {
+            const box = smooth.screen;
 
             ctx.save();
-            if (state.usePadding) {
-              ctx.shadowColor = "rgba(0,0,0,0.4)";
+            if (smooth.padding > 0.01) {
+              ctx.shadowColor = `rgba(0,0,0,${0.4 * smooth.padding})`;
               ctx.shadowBlur = 50;
               ctx.shadowOffsetY = 20;
             }
 
             // Rounded Rect Clip
-            ctx.beginPath();
-            if (ctx.roundRect) {
-                ctx.roundRect(padding, padding, screenW, screenH, state.usePadding ? 30 : 0);
-            } else {
-                ctx.rect(padding, padding, screenW, screenH);
-            }
+            roundRectPath(ctx, box, smooth.screenRadius);
             ctx.fillStyle = "#000"; // Fallback fill
             ctx.fill();
             ctx.shadowColor = "transparent";
             ctx.clip();
 
-            // Object Fit: Portrait uses Cover, Landscape uses Contain
-            const vw = vScreen.videoWidth;
-            const vh = vScreen.videoHeight;
-            const isCanvasPortrait = state.aspectRatio < 1;
-            // Portrait (9:16, 3:4): Fill entire area (may crop)
-            // Landscape (16:9, 4:3): Show full content (may have letterbox)
-            const scale = isCanvasPortrait
-                ? Math.max(screenW / vw, screenH / vh)  // Cover
-                : Math.min(screenW / vw, screenH / vh); // Contain
-            const dw = vw * scale;
-            const dh = vh * scale;
-
-            ctx.drawImage(vScreen, padding + (screenW - dw) / 2, padding + (screenH - dh) / 2, dw, dh);
+            if (screenLost) {
+              // The last decoded frame would otherwise stay frozen in the recording
+              drawSlate(ctx, box.x, box.y, box.w, box.h, slate.title, slate.subtitle, slate);
+            } else {
+              // Object Fit: a full-canvas screen on a portrait canvas (9:16, 3:4) fills the
+              // area (may crop); otherwise show the full content so it stays readable
+              const fit = state.aspectRatio < 1 && !frame.split ? 'cover' : 'contain';
+              drawVideoFit(ctx, vScreen, box, fit);
+            }
             ctx.restore();
           }
 
-          // 4. Draw PIP Camera Overlay
+          // 4. Draw Camera (PIP overlay or its own pane)
           const vCam = videoCamRef.current;
-          if (state.camEnabled && vCam.readyState >= 2) {
-            const { camX, camY, camSize } = state;
-            const r = camSize / 2;
-            const cx = camX + r;
-            const cy = camY + r;
+          const cutout = state.camBackground === 'cutout' && !frame.split && !cameraLost
+            ? backgroundSegmenter.process(vCam)
+            : null;
+          if (smooth.camAlpha > 0.01 && cutout) {
+            // Presenter cut out and placed straight on the screen share: no bubble, no ring
+            ctx.save();
+            ctx.globalAlpha = smooth.camAlpha;
+            if (state.camShadow > 0) {
+              ctx.shadowColor = `rgba(0,0,0,${state.camShadow})`;
+              ctx.shadowBlur = state.camShadow * 65;
+              ctx.shadowOffsetY = state.camShadow * 16;
+            }
+            drawVideoFit(ctx, cutout, smooth.cam, 'cover', state.camMirror);
+            ctx.restore();
+          } else if (smooth.camAlpha > 0.01 && (cameraLost || vCam.readyState >= 2)) {
+            const box = smooth.cam;
+            const radius = smooth.camRadius;
 
             ctx.save();
-            
-            // Audio Reactive Ring
-            const vol = Math.min(audioLevel / 40, 1); 
-            if (vol > 0.1) {
-              ctx.beginPath();
-              ctx.arc(cx, cy, r + vol * 15, 0, Math.PI * 2);
-              ctx.fillStyle = `rgba(0, 113, 227, ${0.3 + vol * 0.2})`;
-              ctx.fill();
+            ctx.globalAlpha = smooth.camAlpha;
+
+            if (!frame.split) {
+              // Audio Reactive Ring
+              const vol = Math.min(audioLevel / 40, 1);
+              if (vol > 0.1) {
+                const grow = vol * 15;
+                camShapePath(ctx, { x: box.x - grow, y: box.y - grow, w: box.w + grow * 2, h: box.h + grow * 2 }, radius + grow, frame.camShape);
+                ctx.fillStyle = `rgba(0, 113, 227, ${0.3 + vol * 0.2})`;
+                ctx.fill();
+              }
+              if (state.camShadow > 0) {
+                ctx.shadowColor = `rgba(0,0,0,${state.camShadow})`;
+                ctx.shadowBlur = state.camShadow * 65;
+                ctx.shadowOffsetY = state.camShadow * 16;
+              }
+            } else if (smooth.padding > 0.01) {
+              ctx.shadowColor = `rgba(0,0,0,${0.4 * smooth.padding})`;
+              ctx.shadowBlur = 50;
+              ctx.shadowOffsetY = 20;
             }
 
-            // Circular Clip
-            ctx.beginPath();
-            ctx.arc(cx, cy, r, 0, Math.PI * 2);
-            ctx.shadowColor = "rgba(0,0,0,0.3)";
-            ctx.shadowBlur = 20;
-            ctx.shadowOffsetY = 5;
+            // Clip to the bubble / pane
+            camShapePath(ctx, box, radius, frame.camShape);
+            ctx.fillStyle = "#000";
+            ctx.fill();
+            ctx.shadowColor = "transparent";
             ctx.clip();
 
-            // Draw Cam
-            const minDim = Math.min(vCam.videoWidth, vCam.videoHeight);
-            ctx.drawImage(
-                vCam, 
-                (vCam.videoWidth - minDim) / 2, 
-                (vCam.videoHeight - minDim) / 2, 
-                minDim, minDim, 
-                camX, camY, camSize, camSize
-            );
+            // Draw Cam (always cover: cropping a face is fine, bars are not)
+            if (cameraLost) {
+                drawSlate(ctx, box.x, box.y, box.w, box.h, slate.cameraText, '', slate);
+            } else {
+                drawCameraFrame(ctx, vCam, box, state, camBackgroundImage, wallpaper);
+            }
 
             // Border
-            ctx.shadowColor = "transparent";
-            ctx.strokeStyle = "#fff";
-            ctx.lineWidth = camSize * 0.03;
-            ctx.stroke();
+            if (!frame.split && state.camBorderWidth > 0) {
+              ctx.strokeStyle = state.camBorderColor;
+              ctx.lineWidth = Math.min(box.w, box.h) * state.camBorderWidth;
+              ctx.stroke();
+            }
 
             ctx.restore();
           }
       }
 
+      if (smooth.fullCam > 0.001) {
+          // --- FULL CAMERA MODE --- (fades in over the screen layout during transitions)
+          ctx.save();
+          ctx.globalAlpha = smooth.fullCam;
+          const vCam = videoCamRef.current;
+          if (cameraLost) {
+              drawSlate(ctx, 0, 0, W, H, slate.title, slate.subtitle, slate);
+          } else if (vCam.readyState >= 2) {
+              // Object Fit: Cover
+              drawCameraFrame(ctx, vCam, { x: 0, y: 0, w: W, h: H }, state, camBackgroundImage, wallpaper);
+          } else {
+              // Placeholder if cam is loading in full mode
+               ctx.fillStyle = "#111";
+               ctx.fillRect(0, 0, W, H);
+          }
+          ctx.restore();
+      }
+
       ctx.restore(); // Restore Zoom/Pan Transform
 
+      // 5. Burned-in captions (unaffected by zoom)
+      drawCaptions(ctx, W, H, caption, captionStyle);
+
       animationFrameRef.current = requestAnimationFrame(render);
     };
 
@@ -217,27 +474,62 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
     return () => {
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     };
-  }, [state, audioLevel, state.width, state.height, state.bgIndex, state.usePadding, state.camEnabled, state.camX, state.camY, state.zoom, state.panX, state.panY, state.isFullCam]);
+  }, [state, audioLevel, caption, captionStyle, screenLost, cameraLost, slate, background, backgroundImage, camBackgroundImage, state.width, state.height, state.backgroundId, state.usePadding, state.camEnabled, state.camX, state.camY, state.zoom, state.panX, state.panY, state.isFullCam, state.camLayout]);
 
-  // Handle Dragging Logic for Camera & Canvas Pan
-  const dragTargetRef = useRef<'camera' | 'canvas' | null>(null);
+  // Handle Dragging Logic for Camera, Split Divider & Canvas Pan
+  const dragTargetRef = useRef<'camera' | 'resize' | 'divider' | 'canvas' | null>(null);
+  const resizeCornerRef = useRef<ResizeCorner>('se');
+  // Unsnapped drag position, so the bubble can be pulled off a snap target again
+  const dragPosRef = useRef({ x: 0, y: 0 });
 
-  const handleMouseDown = (e: React.MouseEvent) => {
+  const toCanvasPoint = (e: React.MouseEvent) => {
     const rect = canvasRef.current!.getBoundingClientRect();
-    const scaleX = state.width / rect.width;
-    const scaleY = state.height / rect.height;
-    const mx = (e.clientX - rect.left) * scaleX;
-    const my = (e.clientY - rect.top) * scaleY;
+    return {
+      x: (e.clientX - rect.left) * (state.width / rect.width),
+      y: (e.clientY - rect.top) * (state.height / rect.height)
+    };
+  };
 
-    // 1. Check Camera Click (Only in PIP mode)
-    if (!state.isFullCam && state.camEnabled) {
-        const cx = state.camX + state.camSize / 2;
-        const cy = state.camY + state.camSize / 2;
-        
-        if (Math.hypot(mx - cx, my - cy) < state.camSize / 2) {
-          dragTargetRef.current = 'camera';
-          return;
-        }
+  // The bubble can be moved and resized only as a PIP overlay
+  const isPip = !state.isFullCam && state.camEnabled && !computeLayout(state).split;
+
+  // What is under the pointer, in order of priority
+  const hitTest = (x: number, y: number): 'camera' | 'divider' | null => {
+    if (state.isFullCam) return null;
+    const frame = computeLayout(state);
+
+    if (frame.split) {
+      const divider = dividerRect(state);
+      return divider && pointInRect(divider, x, y) ? 'divider' : null;
+    }
+
+    if (!state.camEnabled) return null;
+    if (frame.camShape === 'circle') {
+      const r = frame.cam.w / 2;
+      if (Math.hypot(x - (frame.cam.x + r), y - (frame.cam.y + r)) < r) return 'camera';
+    } else if (pointInRect(frame.cam, x, y)) {
+      return 'camera';
+    }
+    return null;
+  };
+
+  // Direct manipulation follows the pointer; easing is for scene transitions, not dragging
+  const updateCamBox = (x: number, y: number, size: number) => {
+    const frame = computeLayout({ ...state, camX: x, camY: y, camSize: size });
+    smoothState.current.cam = { ...frame.cam };
+    smoothState.current.camRadius = frame.camRadius;
+    onUpdateCamBox(x, y, size);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const { x, y } = toCanvasPoint(e);
+
+    // 1. Camera / divider under the pointer
+    const hit = hitTest(x, y);
+    if (hit) {
+      dragTargetRef.current = hit;
+      dragPosRef.current = { x: state.camX, y: state.camY };
+      return;
     }
 
     // 2. Check Canvas Pan (if Zoomed in)
@@ -247,18 +539,39 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
     }
   };
 
+  const handleResizeStart = (corner: ResizeCorner) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    resizeCornerRef.current = corner;
+    dragTargetRef.current = 'resize';
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!dragTargetRef.current) return;
-    
+    if (!dragTargetRef.current) {
+      const { x, y } = toCanvasPoint(e);
+      setHover(hitTest(x, y));
+      return;
+    }
+
     const rect = canvasRef.current!.getBoundingClientRect();
     const scaleX = state.width / rect.width;
     const scaleY = state.height / rect.height;
 
     if (dragTargetRef.current === 'camera') {
-        const newX = state.camX + e.movementX * scaleX;
-        const newY = state.camY + e.movementY * scaleY;
-        onUpdateCamPos(newX, newY);
-    } 
+        const pos = dragPosRef.current;
+        pos.x += e.movementX * scaleX;
+        pos.y += e.movementY * scaleY;
+        // Hold Alt to place the bubble freely
+        const { x, y } = state.camSnap && !e.altKey ? snapCamPosition(state, pos.x, pos.y) : pos;
+        updateCamBox(x, y, state.camSize);
+    }
+    else if (dragTargetRef.current === 'resize') {
+        const next = resizeFromCorner(state, resizeCornerRef.current, e.movementX * scaleX, e.movementY * scaleY);
+        updateCamBox(next.camX, next.camY, next.camSize);
+    }
+    else if (dragTargetRef.current === 'divider') {
+        const { x, y } = toCanvasPoint(e);
+        onUpdateSplit(splitRatioAt(state, x, y));
+    }
     else if (dragTargetRef.current === 'canvas') {
         const deltaX = e.movementX * scaleX / state.zoom;
         const deltaY = e.movementY * scaleY / state.zoom;
@@ -271,6 +584,14 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
     dragTargetRef.current = null;
   };
 
+  // Scroll over the bubble to resize it around its centre
+  const handleWheel = (e: React.WheelEvent) => {
+    const { x, y } = toCanvasPoint(e);
+    if (hitTest(x, y) !== 'camera' || !isPip) return;
+    const next = resizeAroundCenter(state, Math.exp(-e.deltaY * 0.001));
+    onUpdateCamBox(next.camX, next.camY, next.camSize);
+  };
+
   const handleDoubleClick = (e: React.MouseEvent) => {
      if (state.zoom === 1) {
          // Zoom In to 2.2x
@@ -295,6 +616,8 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
 
   // Cursor style
   const getCursor = () => {
+      if (hover === 'divider') return state.camLayout === 'stacked' ? 'cursor-row-resize' : 'cursor-col-resize';
+      if (hover === 'camera') return 'cursor-move';
       if (state.zoom > 1) return 'cursor-grab active:cursor-grabbing';
       if (!state.isFullCam && state.camEnabled) return 'cursor-auto'; // Default or special for hover?
       return 'cursor-default';
@@ -303,11 +626,15 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
   return (
     <div className="relative w-full h-full flex flex-col items-center justify-center p-10 pb-32 transition-all duration-700">
       <div
-        className="relative rounded-2xl overflow-hidden shadow-2xl transition-all duration-300 border border-black/5"
+        className="relative group rounded-2xl overflow-hidden shadow-2xl transition-all duration-300 border border-black/5"
         style={{
             maxWidth: '92vw',
             maxHeight: '70vh'
         }}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+        onWheel={handleWheel}
       >
         <canvas
             ref={canvasRef}
@@ -315,16 +642,29 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
             height={state.height}
             className={`w-full h-full block ${getCursor()}`}
             onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
             onDoubleClick={handleDoubleClick}
         />
+
+        {/* Resize handles (DOM overlay, so they never end up in the recording) */}
+        {isPip && state.zoom === 1 && (() => {
+          const { cam } = computeLayout(state);
+          return RESIZE_CORNERS.map(corner => (
+            <div
+              key={corner}
+              onMouseDown={handleResizeStart(corner)}
+              className={`absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-sm bg-white border-2 border-[#0071e3] shadow opacity-0 group-hover:opacity-100 transition-opacity ${corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+              style={{
+                left: `${((cam.x + (corner.endsWith('e') ? cam.w : 0)) / state.width) * 100}%`,
+                top: `${((cam.y + (corner.startsWith('s') ? cam.h : 0)) / state.height) * 100}%`
+              }}
+            />
+          ));
+        })()}
       </div>
 
       {/* Double Click Tip - Centered at bottom */}
       <div className="mt-6 bg-white/50 backdrop-blur-md px-4 py-2 rounded-full text-xs font-medium text-gray-500 shadow-sm pointer-events-none select-none border border-white/20">
-         Double click to Zoom • Drag camera to move
+         Double click to Zoom • Drag camera to move (Alt: no snapping) • Scroll or drag corners to resize
       </div>
     </div>
   );
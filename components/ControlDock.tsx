@@ -1,51 +1,133 @@
 import React from 'react';
-import { AppMode, AiFeature } from '../types';
+import { AppMode, AiFeature, CanvasState, Scene } from '../types';
 import { 
   Palette, Square, Monitor, UserCircle, 
-  Circle, Square as StopSquare, Bot, Settings, Video
+  Circle, Square as StopSquare, Bot, Settings, Video, Captions, Pause, Play, SlidersHorizontal, Webcam, Plus, X, LayoutPanelLeft, ScanFace
 } from 'lucide-react';
 
 interface ControlDockProps {
   mode: AppMode;
   aiFeature: AiFeature;
   isFullCam: boolean;
+  canvasState: CanvasState;
+  onChangeCamLayout: (patch: Partial<Pick<CanvasState, 'camLayout' | 'pipAspect' | 'camSide'>>) => void;
+  captionsEnabled: boolean;
   onInit: () => void;
-  onToggleBg: () => void;
+  backgroundsOpen: boolean;
+  onToggleBackgrounds: () => void;
   onTogglePadding: () => void;
   onChangeRatio: (r: number) => void;
   onToggleCam: () => void;
   onToggleFullCam: () => void;
+  onToggleCaptions: () => void;
   onStartRecord: () => void;
   onStopRecord: () => void;
+  onPauseRecord: () => void;
+  onResumeRecord: () => void;
   onSetAiFeature: (f: AiFeature) => void;
   onOpenSettings: () => void;
+  mixerOpen: boolean;
+  onToggleMixer: () => void;
+  devicesOpen: boolean;
+  onToggleDevices: () => void;
+  cameraStyleOpen: boolean;
+  onToggleCameraStyle: () => void;
+  scenes: Scene[];
+  activeSceneId: string | null;
+  onSelectScene: (scene: Scene) => void;
+  onSaveScene: () => void;
+  onDeleteScene: (scene: Scene) => void;
 }
 
 export const ControlDock: React.FC<ControlDockProps> = ({
   mode,
   aiFeature,
   isFullCam,
+  canvasState,
+  onChangeCamLayout,
+  captionsEnabled,
   onInit,
-  onToggleBg,
+  backgroundsOpen,
+  onToggleBackgrounds,
   onTogglePadding,
   onChangeRatio,
   onToggleCam,
   onToggleFullCam,
+  onToggleCaptions,
   onStartRecord,
   onStopRecord,
+  onPauseRecord,
+  onResumeRecord,
   onSetAiFeature,
-  onOpenSettings
+  onOpenSettings,
+  mixerOpen,
+  onToggleMixer,
+  devicesOpen,
+  onToggleDevices,
+  cameraStyleOpen,
+  onToggleCameraStyle,
+  scenes,
+  activeSceneId,
+  onSelectScene,
+  onSaveScene,
+  onDeleteScene
 }) => {
   const isReady = mode !== AppMode.IDLE;
-  const isRecording = mode === AppMode.RECORDING;
+  // A paused take is still in progress: keep the recording-only restrictions
+  const isRecording = mode === AppMode.RECORDING || mode === AppMode.PAUSED;
+  const isPaused = mode === AppMode.PAUSED;
+
+  const layoutOptions: { label: string; patch: Parameters<typeof onChangeCamLayout>[0] }[] = [
+    { label: 'Circle PIP', patch: { camLayout: 'pip' } },
+    { label: 'Rounded PIP 16:9', patch: { camLayout: 'pip-rect', pipAspect: 16 / 9 } },
+    { label: 'Rounded PIP 4:3', patch: { camLayout: 'pip-rect', pipAspect: 4 / 3 } },
+    { label: 'Rounded PIP 3:4', patch: { camLayout: 'pip-rect', pipAspect: 3 / 4 } },
+    { label: 'Side by Side (cam left)', patch: { camLayout: 'side-by-side', camSide: 'left' } },
+    { label: 'Side by Side (cam right)', patch: { camLayout: 'side-by-side', camSide: 'right' } },
+    { label: 'Stacked (cam on top)', patch: { camLayout: 'stacked' } },
+  ];
+  const isLayoutActive = (patch: Parameters<typeof onChangeCamLayout>[0]) =>
+    !isFullCam && (Object.keys(patch) as (keyof typeof patch)[]).every(k => canvasState[k] === patch[k]);
 
   return (
     <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 animate-in slide-in-from-bottom-10 duration-500">
+      {/* Scene Strip - stays usable while recording */}
+      {isReady && (
+        <div className="flex justify-center mb-2">
+          <div className="flex items-center gap-1 px-2 py-1 rounded-full bg-white/70 backdrop-blur-2xl border border-white/20 shadow-md max-w-[90vw] overflow-x-auto">
+            {scenes.map((scene, i) => (
+              <div key={scene.id} className="relative group flex-shrink-0">
+                <button
+                  onClick={() => onSelectScene(scene)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${activeSceneId === scene.id ? 'bg-[#1d1d1f] text-white' : 'hover:bg-black/5 text-gray-700'}`}
+                  title={i < 9 ? `Press ${i + 1}` : undefined}
+                >
+                  {i < 9 && <span className="opacity-50 mr-1 tabular-nums">{i + 1}</span>}
+                  {scene.name}
+                </button>
+                {!scene.builtIn && (
+                  <button
+                    onClick={() => onDeleteScene(scene)}
+                    className="absolute -top-1 -right-1 hidden group-hover:flex items-center justify-center w-4 h-4 rounded-full bg-gray-500 text-white"
+                    title="Delete scene"
+                  >
+                    <X size={10} />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button onClick={onSaveScene} className="p-1.5 rounded-full hover:bg-black/5 text-gray-500 flex-shrink-0" title="Save current layout as a scene">
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      )}
       <div className={`
         flex items-center gap-2 px-4 py-2.5 rounded-full 
         bg-white/80 backdrop-blur-2xl border border-white/20 shadow-xl
         transition-all duration-300
-        ${isRecording ? 'border-red-500/30 shadow-red-500/20' : ''}
+        ${isRecording && !isPaused ? 'border-red-500/30 shadow-red-500/20' : ''}
+        ${isPaused ? 'border-amber-500/30 shadow-amber-500/20' : ''}
       `}>
         
         {!isReady ? (
@@ -59,7 +141,11 @@ export const ControlDock: React.FC<ControlDockProps> = ({
           <>
             {/* Visual Controls */}
             <div className="flex items-center gap-1 pr-3 border-r border-gray-300/50">
-                <button onClick={onToggleBg} className="p-2.5 rounded-xl hover:bg-black/5 text-gray-700 transition-colors" title="Change Wallpaper">
+                <button 
+                    onClick={onToggleBackgrounds} 
+                    className={`p-2.5 rounded-xl transition-colors ${backgroundsOpen ? 'bg-black/10 text-black' : 'hover:bg-black/5 text-gray-700'}`} 
+                    title="Backgrounds"
+                >
                     <Palette size={18} />
                 </button>
                 <button onClick={onTogglePadding} className="p-2.5 rounded-xl hover:bg-black/5 text-gray-700 transition-colors" title="Toggle Padding">
@@ -82,6 +168,26 @@ export const ControlDock: React.FC<ControlDockProps> = ({
                     </div>
                 </div>
 
+                {/* Camera Layout Selector */}
+                <div className="relative group">
+                    <button className="p-2.5 rounded-xl hover:bg-black/5 text-gray-700 transition-colors flex items-center gap-1" title="Camera Layout">
+                        <LayoutPanelLeft size={18} />
+                    </button>
+                    <div className="absolute bottom-full left-1/2 -translate-x-1/2 pb-3 hidden group-hover:block z-50">
+                        <div className="flex flex-col bg-white/90 backdrop-blur-md rounded-xl shadow-xl border border-white/20 p-1 min-w-[170px]">
+                            {layoutOptions.map(opt => (
+                                <button
+                                    key={opt.label}
+                                    onClick={() => onChangeCamLayout(opt.patch)}
+                                    className={`px-3 py-2 text-xs font-medium hover:bg-blue-50 text-left rounded-lg whitespace-nowrap ${isLayoutActive(opt.patch) ? 'text-blue-600' : ''}`}
+                                >
+                                    {opt.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
                 <div className="flex gap-1 ml-1 pl-1 border-l border-gray-300/30">
                     <button 
                         onClick={onToggleCam} 
@@ -97,6 +203,34 @@ export const ControlDock: React.FC<ControlDockProps> = ({
                     >
                         <Video size={18} />
                     </button>
+                    <button 
+                        onClick={onToggleCameraStyle} 
+                        className={`p-2.5 rounded-xl transition-colors ${cameraStyleOpen ? 'bg-black/10 text-black' : 'hover:bg-black/5 text-gray-500'}`} 
+                        title="Camera Style"
+                    >
+                        <ScanFace size={18} />
+                    </button>
+                    <button 
+                        onClick={onToggleCaptions} 
+                        className={`p-2.5 rounded-xl transition-colors ${captionsEnabled ? 'bg-black/10 text-black' : 'hover:bg-black/5 text-gray-500'}`} 
+                        title="Burned-in Captions"
+                    >
+                        <Captions size={18} />
+                    </button>
+                    <button 
+                        onClick={onToggleMixer} 
+                        className={`p-2.5 rounded-xl transition-colors ${mixerOpen ? 'bg-black/10 text-black' : 'hover:bg-black/5 text-gray-500'}`} 
+                        title="Audio Mixer"
+                    >
+                        <SlidersHorizontal size={18} />
+                    </button>
+                    <button 
+                        onClick={onToggleDevices} 
+                        className={`p-2.5 rounded-xl transition-colors ${devicesOpen ? 'bg-black/10 text-black' : 'hover:bg-black/5 text-gray-500'}`} 
+                        title="Devices"
+                    >
+                        <Webcam size={18} />
+                    </button>
                 </div>
             </div>
 
@@ -118,15 +252,13 @@ export const ControlDock: React.FC<ControlDockProps> = ({
                 >
                     <FileTextIcon size={18} />
                 </button>
-                {aiFeature === AiFeature.TELEPROMPTER && (
-                    <button onClick={onOpenSettings} className="p-2.5 rounded-xl hover:bg-black/5 text-gray-500">
-                        <Settings size={16} />
-                    </button>
-                )}
+                <button onClick={onOpenSettings} className="p-2.5 rounded-xl hover:bg-black/5 text-gray-500" title="Settings">
+                    <Settings size={16} />
+                </button>
             </div>
 
             {/* Record Controls */}
-            <div className="pl-1">
+            <div className="pl-1 flex items-center gap-1">
                 {!isRecording ? (
                     <button 
                         onClick={onStartRecord}
@@ -136,13 +268,33 @@ export const ControlDock: React.FC<ControlDockProps> = ({
                         <span>Record</span>
                     </button>
                 ) : (
-                    <button 
-                        onClick={onStopRecord}
-                        className="flex items-center gap-2 bg-[#1d1d1f] text-white px-5 py-2.5 rounded-xl font-semibold shadow-lg transition-all hover:scale-105"
-                    >
-                        <StopSquare size={18} className="fill-current" />
-                        <span>Stop</span>
-                    </button>
+                    <>
+                        {isPaused ? (
+                            <button 
+                                onClick={onResumeRecord}
+                                className="flex items-center gap-2 bg-amber-50 text-amber-600 hover:bg-amber-500 hover:text-white px-4 py-2.5 rounded-xl font-semibold transition-all"
+                                title="Resume (starts a new chapter)"
+                            >
+                                <Play size={18} className="fill-current" />
+                                <span>Resume</span>
+                            </button>
+                        ) : (
+                            <button 
+                                onClick={onPauseRecord}
+                                className="p-2.5 rounded-xl hover:bg-black/5 text-gray-700 transition-colors"
+                                title="Pause"
+                            >
+                                <Pause size={18} className="fill-current" />
+                            </button>
+                        )}
+                        <button 
+                            onClick={onStopRecord}
+                            className="flex items-center gap-2 bg-[#1d1d1f] text-white px-5 py-2.5 rounded-xl font-semibold shadow-lg transition-all hover:scale-105"
+                        >
+                            <StopSquare size={18} className="fill-current" />
+                            <span>Stop</span>
+                        </button>
+                    </>
                 )}
             </div>
           </>
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { X, Webcam, Mic, Monitor } from 'lucide-react';
+import { CAMERA_RESOLUTIONS, CameraResolution, DeviceLists, DeviceSelection, listDevices } from '../services/mediaDevices';
+
+interface DevicePanelProps {
+  isOpen: boolean;
+  selection: DeviceSelection;
+  // Devices can only be swapped in preview, not under a running recorder
+  canSwitch: boolean;
+  onChange: (selection: DeviceSelection) => void;
+  onChangeScreen: () => void;
+  onClose: () => void;
+}
+
+const deviceLabel = (d: MediaDeviceInfo, i: number, fallback: string) => d.label || `${fallback} ${i + 1}`;
+
+export const DevicePanel: React.FC<DevicePanelProps> = ({
+  isOpen,
+  selection,
+  canSwitch,
+  onChange,
+  onChangeScreen,
+  onClose
+}) => {
+  const [devices, setDevices] = useState<DeviceLists>({ cameras: [], microphones: [] });
+
+  // Refresh while open, including when something is plugged in or out
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => listDevices().then(setDevices).catch(e => console.warn('enumerateDevices failed', e));
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const selectClass = "w-full bg-gray-50 rounded-lg px-2 py-1.5 text-xs border border-gray-200 focus:ring-2 focus:ring-blue-500 disabled:opacity-50";
+
+  return (
+    <div className="fixed bottom-28 left-8 z-50 w-80 bg-white/90 backdrop-blur-2xl border border-white/20 shadow-xl rounded-2xl p-4 animate-in fade-in slide-in-from-bottom-4 duration-200">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-800">Devices</h3>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+          <X size={16} className="text-gray-500" />
+        </button>
+      </div>
+
+      <div className="space-y-3 text-xs text-gray-600">
+        <label className="block">
+          <span className="flex items-center gap-1.5 font-medium mb-1"><Webcam size={14} /> Camera</span>
+          <select
+            className={selectClass}
+            disabled={!canSwitch}
+            value={selection.cameraId || ''}
+            onChange={(e) => onChange({ ...selection, cameraId: e.target.value || null })}
+          >
+            <option value="">System default</option>
+            {devices.cameras.map((d, i) => (
+              <option key={d.deviceId} value={d.deviceId}>{deviceLabel(d, i, 'Camera')}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="font-medium mb-1 block">Camera resolution</span>
+          <select
+            className={selectClass}
+            disabled={!canSwitch}
+            value={selection.cameraResolution}
+            onChange={(e) => onChange({ ...selection, cameraResolution: e.target.value as CameraResolution })}
+          >
+            {CAMERA_RESOLUTIONS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="flex items-center gap-1.5 font-medium mb-1"><Mic size={14} /> Microphone</span>
+          <select
+            className={selectClass}
+            disabled={!canSwitch}
+            value={selection.micId || ''}
+            onChange={(e) => onChange({ ...selection, micId: e.target.value || null })}
+          >
+            <option value="">System default</option>
+            {devices.microphones.map((d, i) => (
+              <option key={d.deviceId} value={d.deviceId}>{deviceLabel(d, i, 'Microphone')}</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={onChangeScreen}
+          disabled={!canSwitch}
+          className="w-full flex items-center justify-center gap-1.5 px-3 py-2 font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-50"
+        >
+          <Monitor size={14} /> Change screen source…
+        </button>
+
+        {!canSwitch && <p className="text-gray-400">Stop recording to change devices.</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { X, Volume2, VolumeX, AlertTriangle, SlidersHorizontal } from 'lucide-react';
+import {
+  audioMixer,
+  DuckingSettings,
+  MAX_GAIN_DB,
+  MeterReading,
+  MIN_GAIN_DB,
+  MIXER_SOURCES,
+  MixerSettings
+} from '../services/audioMixer';
+
+interface MixerPanelProps {
+  isOpen: boolean;
+  settings: MixerSettings;
+  onChange: (settings: MixerSettings) => void;
+  ducking: DuckingSettings;
+  onChangeDucking: (settings: DuckingSettings) => void;
+  onClose: () => void;
+}
+
+type Readings = ReturnType<typeof audioMixer.readMeters>;
+
+// Meter scale: -60 dBFS .. 0 dBFS
+const METER_FLOOR_DB = -60;
+const meterPercent = (db: number) => Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB)) * 100;
+
+const LevelMeter: React.FC<{ reading?: MeterReading | null }> = ({ reading }) => {
+  const peak = reading ? meterPercent(reading.peakDb) : 0;
+  const rms = reading ? meterPercent(reading.rmsDb) : 0;
+  const color = reading?.clipping ? 'bg-red-500' : peak > 90 ? 'bg-amber-400' : 'bg-green-500';
+
+  return (
+    <div className="relative h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+      {/* RMS body with a thin peak marker on top */}
+      <div className={`absolute inset-y-0 left-0 ${color} opacity-60 transition-[width] duration-75`} style={{ width: `${rms}%` }} />
+      <div className={`absolute inset-y-0 w-0.5 ${color}`} style={{ left: `calc(${peak}% - 2px)` }} />
+    </div>
+  );
+};
+
+export const MixerPanel: React.FC<MixerPanelProps> = ({ isOpen, settings, onChange, ducking, onChangeDucking, onClose }) => {
+  const [readings, setReadings] = useState<Readings | null>(null);
+
+  // Only poll the analysers while the panel is visible
+  useEffect(() => {
+    if (!isOpen) return;
+    let raf = 0;
+    const loop = () => {
+      setReadings(audioMixer.readMeters());
+      raf = requestAnimationFrame(loop);
+    };
+    loop();
+    return () => cancelAnimationFrame(raf);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const masterClipping = !!readings?.master?.clipping;
+
+  return (
+    <div className="fixed bottom-28 right-8 z-50 w-80 bg-white/90 backdrop-blur-2xl border border-white/20 shadow-xl rounded-2xl p-4 animate-in fade-in slide-in-from-bottom-4 duration-200">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+          <SlidersHorizontal size={16} /> Audio Mixer
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+          <X size={16} className="text-gray-500" />
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {MIXER_SOURCES.map(({ id, label }) => {
+          const channel = settings[id];
+          const available = audioMixer.hasSource(id);
+          return (
+            <div key={id} className={available ? '' : 'opacity-40'}>
+              <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                <span className="font-medium">{label}{available ? '' : ' (no source)'}</span>
+                <span className="tabular-nums">{channel.muted ? 'muted' : `${channel.gainDb > 0 ? '+' : ''}${channel.gainDb} dB`}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onChange({ ...settings, [id]: { ...channel, muted: !channel.muted } })}
+                  className={`p-1.5 rounded-lg transition-colors ${channel.muted ? 'bg-red-50 text-red-500' : 'hover:bg-black/5 text-gray-600'}`}
+                  title={channel.muted ? 'Unmute' : 'Mute'}
+                >
+                  {channel.muted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+                </button>
+                <input
+                  type="range"
+                  className="flex-1"
+                  min={MIN_GAIN_DB}
+                  max={MAX_GAIN_DB}
+                  step={1}
+                  value={channel.gainDb}
+                  onChange={(e) => onChange({ ...settings, [id]: { ...channel, gainDb: Number(e.target.value) } })}
+                  onDoubleClick={() => onChange({ ...settings, [id]: { ...channel, gainDb: 0 } })}
+                  title="Double-click to reset to 0 dB"
+                />
+              </div>
+              <div className="mt-1.5 flex items-center gap-2">
+                <LevelMeter reading={readings?.channels[id]} />
+                {readings?.channels[id]?.clipping && <AlertTriangle size={12} className="text-red-500 shrink-0" />}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="pt-3 border-t border-gray-200/70">
+          <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+            <span className="font-medium">Master</span>
+            <span className="tabular-nums">
+              {readings?.master ? `${Math.round(readings.master.peakDb)} dBFS peak` : '—'}
+            </span>
+          </div>
+          <LevelMeter reading={readings?.master} />
+          {masterClipping && (
+            <p className="mt-2 text-xs text-red-500 flex items-center gap-1">
+              <AlertTriangle size={12} /> Clipping — lower a fader until the meter stays out of the red
+            </p>
+          )}
+        </div>
+
+        <div className="pt-3 border-t border-gray-200/70 space-y-1.5 text-xs text-gray-600">
+          <label className="flex items-center justify-between">
+            <span className="font-medium">
+              Duck system audio while speaking
+              {ducking.enabled && audioMixer.ducked && <span className="ml-2 text-blue-600">ducking</span>}
+            </span>
+            <input
+              type="checkbox"
+              checked={ducking.enabled}
+              onChange={(e) => onChangeDucking({ ...ducking, enabled: e.target.checked })}
+            />
+          </label>
+          {ducking.enabled && (
+            <>
+              <label className="flex items-center justify-between gap-2">
+                <span>Depth ({ducking.depthDb} dB)</span>
+                <input type="range" min={3} max={40} step={1} value={ducking.depthDb}
+                  onChange={(e) => onChangeDucking({ ...ducking, depthDb: Number(e.target.value) })} />
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                <span>Attack ({ducking.attackMs} ms)</span>
+                <input type="range" min={5} max={500} step={5} value={ducking.attackMs}
+                  onChange={(e) => onChangeDucking({ ...ducking, attackMs: Number(e.target.value) })} />
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                <span>Release ({ducking.releaseMs} ms)</span>
+                <input type="range" min={50} max={3000} step={50} value={ducking.releaseMs}
+                  onChange={(e) => onChangeDucking({ ...ducking, releaseMs: Number(e.target.value) })} />
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                <span>Voice threshold ({ducking.threshold})</span>
+                <input type="range" min={1} max={60} step={1} value={ducking.threshold}
+                  onChange={(e) => onChangeDucking({ ...ducking, threshold: Number(e.target.value) })} />
+              </label>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AArrowDown, AArrowUp, ChevronDown, ChevronUp, FlipHorizontal, FlipVertical, Maximize, X } from 'lucide-react';
+import { PrompterStyle } from '../types';
+import { ScriptRun, ScriptSegment, splitRunsAtToken } from '../services/scriptMarkup';
+
+interface PrompterWindowProps {
+  target: Window;
+  segments: ScriptSegment[];
+  activeSegmentIndex: number;
+  matchedWordCount: number;
+  style: PrompterStyle;
+  onChangeStyle: (style: PrompterStyle) => void;
+  onStep: (direction: 'next' | 'prev') => void;
+  onClose: () => void;
+}
+
+const MIN_FONT_SIZE = 24;
+const MAX_FONT_SIZE = 160;
+
+export const supportsDocumentPip = () => 'documentPictureInPicture' in window;
+
+// Open an empty window for the prompter: a regular pop-up (can be dragged to the monitor under
+// the camera and made fullscreen) or an always-on-top Document Picture-in-Picture window.
+// Must be called from a user gesture; resolves to null when the browser blocks it.
+export async function openPrompterWindow(pictureInPicture: boolean): Promise<Window | null> {
+  const win: Window | null = pictureInPicture && supportsDocumentPip()
+    ? await (window as any).documentPictureInPicture.requestWindow({ width: 720, height: 405 })
+    : window.open('', 'tuilirec-prompter', 'popup,width=1000,height=600');
+  if (!win) return null;
+  win.document.title = 'TuiliRec Prompter';
+  // A reused pop-up can still hold the render from before a reload
+  win.document.body.innerHTML = '';
+  win.document.body.style.margin = '0';
+  return win;
+}
+
+// The script as a scrolling prompter, rendered into another window through a portal so it
+// shares the teleprompter state with the main page. Styled inline: the Tailwind CDN only
+// generates classes for the main document.
+export const PrompterWindow: React.FC<PrompterWindowProps> = ({
+  target,
+  segments,
+  activeSegmentIndex,
+  matchedWordCount,
+  style,
+  onChangeStyle,
+  onStep,
+  onClose
+}) => {
+  const scriptRef = useRef<HTMLDivElement>(null);
+  const [offset, setOffset] = useState(0);
+  const [viewport, setViewport] = useState({ width: target.innerWidth, height: target.innerHeight });
+
+  // Closed from its own title bar; resizing reflows the text
+  useEffect(() => {
+    const handleClose = () => onClose();
+    const handleResize = () => setViewport({ width: target.innerWidth, height: target.innerHeight });
+    target.addEventListener('pagehide', handleClose);
+    target.addEventListener('resize', handleResize);
+    return () => {
+      target.removeEventListener('pagehide', handleClose);
+      target.removeEventListener('resize', handleResize);
+    };
+  }, [target, onClose]);
+
+  // Arrow keys and presentation clickers (PageUp/PageDown) step through the script
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowDown' || e.key === 'PageDown' || e.key === ' ') onStep('next');
+      else if (e.key === 'ArrowUp' || e.key === 'PageUp') onStep('prev');
+      else return;
+      e.preventDefault();
+    };
+    target.addEventListener('keydown', handleKeyDown);
+    return () => target.removeEventListener('keydown', handleKeyDown);
+  }, [target, onStep]);
+
+  // Scroll so the active segment starts on the reading line
+  useLayoutEffect(() => {
+    const container = scriptRef.current;
+    if (!container) return;
+    const active = container.children[activeSegmentIndex] as HTMLElement | undefined;
+    setOffset(active ? active.offsetTop : container.scrollHeight);
+  }, [activeSegmentIndex, segments, style.fontSize, style.lineHeight, viewport]);
+
+  const runStyle = (run: ScriptRun, read: boolean): React.CSSProperties => ({
+    color: read ? style.readColor : undefined,
+    fontWeight: run.strong ? 800 : undefined,
+    textDecoration: run.strong ? 'underline' : undefined,
+    fontStyle: run.em ? 'italic' : undefined,
+  });
+
+  const cueStyle = (color: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '0 0.5em',
+    borderRadius: '0.4em',
+    fontSize: '0.6em',
+    background: `${color}33`,
+    color,
+  });
+
+  // Sentences highlight what has been read; sections, notes and cues are styled apart since
+  // they are never spoken
+  const renderSegment = (segment: ScriptSegment, index: number) => {
+    switch (segment.kind) {
+      case 'section':
+        return <span style={{ fontSize: '0.6em', textTransform: 'uppercase', letterSpacing: '0.15em', opacity: 0.6 }}>§ {segment.text}</span>;
+      case 'note':
+        return <span style={{ fontSize: '0.6em', fontStyle: 'italic', fontWeight: 400, color: '#7dd3fc' }}>✎ {segment.text}</span>;
+      case 'pause':
+        return <span style={cueStyle('#fcd34d')}>⏸ Pause {segment.seconds}s</span>;
+      case 'slide':
+        return <span style={cueStyle('#93c5fd')}>▶ Next slide{segment.text ? `: ${segment.text}` : ''}</span>;
+    }
+    const read = index === activeSegmentIndex ? matchedWordCount : 0;
+    return splitRunsAtToken(segment.runs, read).map((run, i) => (
+      <span key={i} style={runStyle(run, run.read)}>{run.text}</span>
+    ));
+  };
+
+  const setFontSize = (fontSize: number) =>
+    onChangeStyle({ ...style, fontSize: Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, fontSize)) });
+
+  const buttonStyle: React.CSSProperties = {
+    display: 'flex',
+    padding: 6,
+    border: 'none',
+    borderRadius: 8,
+    background: 'rgba(255,255,255,0.12)',
+    color: '#ffffff',
+    cursor: 'pointer',
+  };
+  const toggledStyle = (on: boolean): React.CSSProperties =>
+    on ? { ...buttonStyle, background: 'rgba(255,255,255,0.35)' } : buttonStyle;
+
+  const lineHeightPx = style.fontSize * style.lineHeight;
+
+  return createPortal(
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        overflow: 'hidden',
+        background: style.backgroundColor,
+        color: style.textColor,
+        fontFamily: 'Inter, "PingFang SC", "Microsoft YaHei", sans-serif',
+      }}
+    >
+      {/* Everything but the toolbar is mirrored */}
+      <div
+        style={{
+          position: 'absolute',
+          inset: 0,
+          transform: `scale(${style.mirrorHorizontal ? -1 : 1}, ${style.mirrorVertical ? -1 : 1})`,
+        }}
+      >
+        {/* Reading line */}
+        <div
+          style={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            top: `${style.readingLine * 100}%`,
+            height: lineHeightPx,
+            background: 'rgba(255,255,255,0.06)',
+            borderLeft: `6px solid ${style.readColor}`,
+          }}
+        />
+
+        <div
+          ref={scriptRef}
+          style={{
+            position: 'absolute',
+            left: '8%',
+            right: '8%',
+            top: `${style.readingLine * 100}%`,
+            transform: `translateY(${-offset}px)`,
+            transition: 'transform 400ms ease-out',
+            fontSize: style.fontSize,
+            lineHeight: style.lineHeight,
+            fontWeight: 600,
+          }}
+        >
+          {segments.map((segment, i) => (
+            <p key={i} style={{ margin: `0 0 ${lineHeightPx / 2}px`, opacity: i < activeSegmentIndex ? 0.35 : 1 }}>
+              {renderSegment(segment, i)}
+            </p>
+          ))}
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div style={{ position: 'absolute', right: 12, bottom: 12, display: 'flex', gap: 6, opacity: 0.6 }}>
+        <button style={buttonStyle} onClick={() => onStep('prev')} title="Previous line (↑)"><ChevronUp size={18} /></button>
+        <button style={buttonStyle} onClick={() => onStep('next')} title="Next line (↓)"><ChevronDown size={18} /></button>
+        <button style={buttonStyle} onClick={() => setFontSize(style.fontSize - 4)} title="Smaller text"><AArrowDown size={18} /></button>
+        <button style={buttonStyle} onClick={() => setFontSize(style.fontSize + 4)} title="Larger text"><AArrowUp size={18} /></button>
+        <button
+          style={toggledStyle(style.mirrorHorizontal)}
+          onClick={() => onChangeStyle({ ...style, mirrorHorizontal: !style.mirrorHorizontal })}
+          title="Mirror horizontally"
+        >
+          <FlipHorizontal size={18} />
+        </button>
+        <button
+          style={toggledStyle(style.mirrorVertical)}
+          onClick={() => onChangeStyle({ ...style, mirrorVertical: !style.mirrorVertical })}
+          title="Mirror vertically"
+        >
+          <FlipVertical size={18} />
+        </button>
+        {target.document.fullscreenEnabled && (
+          <button
+            style={buttonStyle}
+            onClick={() => target.document.documentElement.requestFullscreen().catch(e => console.warn('Fullscreen failed', e))}
+            title="Fullscreen"
+          >
+            <Maximize size={18} />
+          </button>
+        )}
+        <button style={buttonStyle} onClick={onClose} title="Close prompter window"><X size={18} /></button>
+      </div>
+    </div>,
+    target.document.body
+  );
+};
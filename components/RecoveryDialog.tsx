@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { X, Download, Trash2, LifeBuoy } from 'lucide-react';
+import { RecordingSessionMeta } from '../services/recordingStore';
+
+interface RecoveryDialogProps {
+  sessions: RecordingSessionMeta[];
+  onRecover: (session: RecordingSessionMeta) => Promise<void>;
+  onDiscard: (session: RecordingSessionMeta) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const formatDuration = (ms: number) => {
+  const total = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Shown on launch when a previous tab crashed or reloaded mid-recording
+export const RecoveryDialog: React.FC<RecoveryDialogProps> = ({
+  sessions,
+  onRecover,
+  onDiscard,
+  onClose
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (sessions.length === 0) return null;
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[80vh]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+            <LifeBuoy size={18} className="text-blue-600" />
+            Recover Unfinished Recordings
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-4 flex-1 overflow-y-auto">
+          <p className="text-sm text-gray-500 mb-4">
+            These takes were interrupted before they could be saved. Everything up to the last second was kept on disk.
+          </p>
+          <ul className="space-y-2">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-xl">
+                <div className="text-sm">
+                  <div className="font-medium text-gray-800">
+                    {new Date(session.startedAt).toLocaleString()}
+                    {session.track && <span className="ml-2 text-xs font-normal text-gray-500">{session.track} track</span>}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {formatDuration(session.updatedAt - session.startedAt)} • {formatBytes(session.bytes)} • {session.extension}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => run(session.id, () => onRecover(session))}
+                    disabled={busyId !== null}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+                  >
+                    <Download size={14} />
+                    {busyId === session.id ? 'Rebuilding…' : 'Download'}
+                  </button>
+                  <button
+                    onClick={() => run(session.id, () => onDiscard(session))}
+                    disabled={busyId !== null}
+                    className="p-1.5 rounded-lg hover:bg-red-50 text-gray-400 hover:text-red-500 disabled:opacity-50"
+                    title="Discard"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg">Later</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,52 +1,485 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
+import { AiFeature, CaptionStyle, PrompterStyle, SlateStyle, SpeechProviderId } from '../types';
+import { listSpeechProviders } from '../services/speechProviders';
+import { SubtitleOptions } from '../services/subtitles';
+import { MicProcessingSettings } from '../services/micProcessor';
+import { isProfileSupported, OUTPUT_PROFILES, probeSupportedCodecs, resolveOutputFormat } from '../services/outputProfiles';
 
 interface SettingsDialogProps {
   isOpen: boolean;
   currentScript: string;
+  speechProviderIds: Record<AiFeature, SpeechProviderId | null>;
   onClose: () => void;
   onSave: (script: string) => void;
+  onSaveSpeechProviders: (ids: Record<AiFeature, SpeechProviderId | null>) => void;
+  subtitleOptions: SubtitleOptions;
+  onSaveSubtitleOptions: (options: SubtitleOptions) => void;
+  captionStyle: CaptionStyle;
+  onSaveCaptionStyle: (style: CaptionStyle) => void;
+  outputProfileId: string;
+  onSaveOutputProfile: (id: string) => void;
+  micProcessing: MicProcessingSettings;
+  onSaveMicProcessing: (settings: MicProcessingSettings) => void;
+  slateStyle: SlateStyle;
+  onSaveSlateStyle: (style: SlateStyle) => void;
+  prompterStyle: PrompterStyle;
+  onSavePrompterStyle: (style: PrompterStyle) => void;
+  isoTracksEnabled: boolean;
+  onSaveIsoTracks: (enabled: boolean) => void;
+  // The canvas resolution can't change under a running MediaRecorder
+  isRecording: boolean;
 }
 
+const CAPTION_FONTS = [
+  { label: 'Sans', value: 'Inter, "PingFang SC", "Microsoft YaHei", sans-serif' },
+  { label: 'Serif', value: 'Georgia, "Songti SC", "SimSun", serif' },
+  { label: 'Mono', value: '"SF Mono", Menlo, monospace' },
+];
+
+const PROVIDER_FEATURES: { feature: AiFeature; label: string }[] = [
+  { feature: AiFeature.TELEPROMPTER, label: 'Teleprompter' },
+  { feature: AiFeature.INTERVIEWER, label: 'AI Interviewer' },
+];
+
 export const SettingsDialog: React.FC<SettingsDialogProps> = ({
   isOpen,
   currentScript,
+  speechProviderIds,
   onClose,
-  onSave
+  onSave,
+  onSaveSpeechProviders,
+  subtitleOptions,
+  onSaveSubtitleOptions,
+  captionStyle,
+  onSaveCaptionStyle,
+  outputProfileId,
+  onSaveOutputProfile,
+  micProcessing,
+  onSaveMicProcessing,
+  slateStyle,
+  onSaveSlateStyle,
+  prompterStyle,
+  onSavePrompterStyle,
+  isoTracksEnabled,
+  onSaveIsoTracks,
+  isRecording
 }) => {
   const [text, setText] = useState(currentScript);
+  const [providers, setProviders] = useState(speechProviderIds);
+  const [subtitles, setSubtitles] = useState(subtitleOptions);
+  const [captions, setCaptions] = useState(captionStyle);
+  const [profileId, setProfileId] = useState(outputProfileId);
+  const [isoTracks, setIsoTracks] = useState(isoTracksEnabled);
+  const [mic, setMic] = useState(micProcessing);
+  const [slate, setSlate] = useState(slateStyle);
+  const [prompter, setPrompter] = useState(prompterStyle);
+
+  // Re-sync drafts with the latest values each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setText(currentScript);
+    setProviders(speechProviderIds);
+    setSubtitles(subtitleOptions);
+    setCaptions(captionStyle);
+    setProfileId(outputProfileId);
+    setIsoTracks(isoTracksEnabled);
+    setMic(micProcessing);
+    setSlate(slateStyle);
+    setPrompter(prompterStyle);
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
+  const selectedProfile = OUTPUT_PROFILES.find(p => p.id === profileId) || OUTPUT_PROFILES[0];
+  const selectedFormat = resolveOutputFormat(selectedProfile);
+  const supportedCodecs = probeSupportedCodecs();
+
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[80vh]">
         <div className="flex items-center justify-between p-4 border-b border-gray-100">
-          <h3 className="font-semibold text-gray-800">Teleprompter Script</h3>
+          <h3 className="font-semibold text-gray-800">Settings</h3>
           <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
             <X size={20} className="text-gray-500" />
           </button>
         </div>
-        
-        <div className="p-4 flex-1 overflow-hidden">
-          <textarea
-            className="w-full h-64 p-3 bg-gray-50 rounded-xl border-none focus:ring-2 focus:ring-blue-500 resize-none text-base leading-relaxed"
-            placeholder="Paste your script here..."
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-          />
-          <p className="text-xs text-gray-400 mt-2">
-            The AI will listen to you and automatically scroll/highlight the text as you speak.
-          </p>
+
+        <div className="p-4 flex-1 overflow-y-auto space-y-6">
+          <section>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Teleprompter Script</h4>
+            <textarea
+              className="w-full h-64 p-3 bg-gray-50 rounded-xl border-none focus:ring-2 focus:ring-blue-500 resize-none text-base leading-relaxed"
+              placeholder="Paste your script here..."
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+            <p className="text-xs text-gray-400 mt-2">
+              The AI will listen to you and automatically scroll/highlight the text as you speak.
+            </p>
+            <p className="text-xs text-gray-400 mt-1">
+              Markup: <code># Section</code>, <code>**stress**</code>, <code>*emphasis*</code>, <code>[pause 2s]</code>, <code>[slide]</code>, and <code>&gt; note</code> lines that are shown but not matched.
+            </p>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Prompter Window</h4>
+            <div className="space-y-2 text-sm text-gray-700">
+              <label className="flex items-center justify-between gap-4">
+                <span>Font size ({prompter.fontSize}px)</span>
+                <input
+                  type="range"
+                  min={24}
+                  max={160}
+                  step={4}
+                  value={prompter.fontSize}
+                  onChange={(e) => setPrompter(p => ({ ...p, fontSize: Number(e.target.value) }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Line spacing</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={2.5}
+                  step={0.1}
+                  value={prompter.lineHeight}
+                  onChange={(e) => setPrompter(p => ({ ...p, lineHeight: Number(e.target.value) }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Reading line ({Math.round(prompter.readingLine * 100)}% from top)</span>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={0.9}
+                  step={0.05}
+                  value={prompter.readingLine}
+                  onChange={(e) => setPrompter(p => ({ ...p, readingLine: Number(e.target.value) }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Text color</span>
+                <input type="color" value={prompter.textColor} onChange={(e) => setPrompter(p => ({ ...p, textColor: e.target.value }))} />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Spoken text color</span>
+                <input type="color" value={prompter.readColor} onChange={(e) => setPrompter(p => ({ ...p, readColor: e.target.value }))} />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Background</span>
+                <input type="color" value={prompter.backgroundColor} onChange={(e) => setPrompter(p => ({ ...p, backgroundColor: e.target.value }))} />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Mirror horizontally</span>
+                <input
+                  type="checkbox"
+                  checked={prompter.mirrorHorizontal}
+                  onChange={(e) => setPrompter(p => ({ ...p, mirrorHorizontal: e.target.checked }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Mirror vertically</span>
+                <input
+                  type="checkbox"
+                  checked={prompter.mirrorVertical}
+                  onChange={(e) => setPrompter(p => ({ ...p, mirrorVertical: e.target.checked }))}
+                />
+              </label>
+              <p className="text-xs text-gray-400">Mirroring is for beam-splitter glass. Pop the prompter out from the teleprompter panel and move it to the screen under your camera.</p>
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Speech Recognition</h4>
+            <div className="space-y-2">
+              {PROVIDER_FEATURES.map(({ feature, label }) => (
+                <label key={feature} className="flex items-center justify-between gap-4 text-sm text-gray-700">
+                  <span>{label}</span>
+                  <select
+                    className="bg-gray-50 rounded-lg px-3 py-1.5 text-sm border border-gray-200 focus:ring-2 focus:ring-blue-500"
+                    value={providers[feature] || ''}
+                    onChange={(e) => setProviders(p => ({ ...p, [feature]: e.target.value as SpeechProviderId }))}
+                  >
+                    {listSpeechProviders(feature).map(p => (
+                      <option key={p.id} value={p.id}>
+                        {p.label}{p.isAvailable() ? '' : ' (not configured)'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Recording</h4>
+            <div className="space-y-2 text-sm text-gray-700">
+              <label className="flex items-center justify-between gap-4">
+                <span>Output profile</span>
+                <select
+                  className="bg-gray-50 rounded-lg px-3 py-1.5 text-sm border border-gray-200 focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  value={profileId}
+                  disabled={isRecording}
+                  onChange={(e) => setProfileId(e.target.value)}
+                >
+                  {OUTPUT_PROFILES.map(p => (
+                    <option key={p.id} value={p.id}>
+                      {p.label}{isProfileSupported(p) ? '' : ' (not supported here)'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <p className="text-xs text-gray-400">
+                {selectedProfile.fps} fps • {(selectedProfile.videoBitsPerSecond / 1_000_000).toFixed(1)} Mbps video • {Math.round(selectedProfile.audioBitsPerSecond / 1000)} kbps audio • {selectedFormat.mimeType}
+                {selectedFormat.isFallback && ' (fallback: preferred codecs unavailable)'}
+                {isRecording && ' — stop recording to change the profile.'}
+              </p>
+              <label className="flex items-center justify-between gap-4">
+                <span>Also save isolated tracks (mic, system audio, raw camera)</span>
+                <input
+                  type="checkbox"
+                  checked={isoTracks}
+                  disabled={isRecording}
+                  onChange={(e) => setIsoTracks(e.target.checked)}
+                />
+              </label>
+              <details className="text-xs text-gray-400">
+                <summary className="cursor-pointer select-none">Codecs supported by this browser ({supportedCodecs.length})</summary>
+                <ul className="mt-1 ml-4 list-disc font-mono">
+                  {supportedCodecs.length > 0
+                    ? supportedCodecs.map(c => <li key={c}>{c}</li>)
+                    : <li>None of the known codecs; MediaRecorder will pick its default</li>}
+                </ul>
+              </details>
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Microphone Processing</h4>
+            <div className="space-y-2 text-sm text-gray-700">
+              <label className="flex items-center justify-between gap-4">
+                <span>Browser noise suppression</span>
+                <input type="checkbox" checked={mic.noiseSuppression} onChange={(e) => setMic(m => ({ ...m, noiseSuppression: e.target.checked }))} />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Browser echo cancellation</span>
+                <input type="checkbox" checked={mic.echoCancellation} onChange={(e) => setMic(m => ({ ...m, echoCancellation: e.target.checked }))} />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Browser auto gain</span>
+                <input type="checkbox" checked={mic.autoGainControl} onChange={(e) => setMic(m => ({ ...m, autoGainControl: e.target.checked }))} />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Processing chain (high-pass, gate, compressor, limiter)</span>
+                <input type="checkbox" checked={mic.enabled} onChange={(e) => setMic(m => ({ ...m, enabled: e.target.checked }))} />
+              </label>
+              <div className={`space-y-2 ${mic.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                <label className="flex items-center justify-between gap-4">
+                  <span>High-pass ({mic.highPassHz} Hz)</span>
+                  <input type="range" min={20} max={200} step={5} value={mic.highPassHz}
+                    onChange={(e) => setMic(m => ({ ...m, highPassHz: Number(e.target.value) }))} />
+                </label>
+                <label className="flex items-center justify-between gap-4">
+                  <span>Gate threshold ({mic.gateThresholdDb} dB)</span>
+                  <input type="range" min={-80} max={-20} step={1} value={mic.gateThresholdDb}
+                    onChange={(e) => setMic(m => ({ ...m, gateThresholdDb: Number(e.target.value) }))} />
+                </label>
+                <label className="flex items-center justify-between gap-4">
+                  <span>Compressor threshold ({mic.compressorThresholdDb} dB)</span>
+                  <input type="range" min={-50} max={0} step={1} value={mic.compressorThresholdDb}
+                    onChange={(e) => setMic(m => ({ ...m, compressorThresholdDb: Number(e.target.value) }))} />
+                </label>
+                <label className="flex items-center justify-between gap-4">
+                  <span>Compressor ratio ({mic.compressorRatio}:1)</span>
+                  <input type="range" min={1} max={20} step={0.5} value={mic.compressorRatio}
+                    onChange={(e) => setMic(m => ({ ...m, compressorRatio: Number(e.target.value) }))} />
+                </label>
+                <label className="flex items-center justify-between gap-4">
+                  <span>Limiter ceiling ({mic.limiterCeilingDb} dB)</span>
+                  <input type="range" min={-12} max={0} step={0.5} value={mic.limiterCeilingDb}
+                    onChange={(e) => setMic(m => ({ ...m, limiterCeilingDb: Number(e.target.value) }))} />
+                </label>
+              </div>
+              <p className="text-xs text-gray-400">The processed mic is what gets recorded and what the speech recognition hears (Browser Speech always uses the raw mic).</p>
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Subtitles</h4>
+            <div className="space-y-2 text-sm text-gray-700">
+              <label className="flex items-center justify-between gap-4">
+                <span>Export .srt / .vtt with each recording</span>
+                <input
+                  type="checkbox"
+                  checked={subtitles.enabled}
+                  onChange={(e) => setSubtitles(o => ({ ...o, enabled: e.target.checked }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Max line length (columns, CJK counts 2)</span>
+                <input
+                  type="number"
+                  min={10}
+                  max={80}
+                  className="w-20 bg-gray-50 rounded-lg px-2 py-1 border border-gray-200"
+                  value={subtitles.maxLineWidth}
+                  onChange={(e) => setSubtitles(o => ({ ...o, maxLineWidth: Math.max(10, Number(e.target.value) || 10) }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Lines per caption</span>
+                <select
+                  className="bg-gray-50 rounded-lg px-2 py-1 border border-gray-200"
+                  value={subtitles.maxLines}
+                  onChange={(e) => setSubtitles(o => ({ ...o, maxLines: Number(e.target.value) }))}
+                >
+                  <option value={1}>1</option>
+                  <option value={2}>2</option>
+                  <option value={3}>3</option>
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>CJK-aware line breaking</span>
+                <input
+                  type="checkbox"
+                  checked={subtitles.cjkLineBreaking}
+                  onChange={(e) => setSubtitles(o => ({ ...o, cjkLineBreaking: e.target.checked }))}
+                />
+              </label>
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Burned-in Captions</h4>
+            <div className="space-y-2 text-sm text-gray-700">
+              <label className="flex items-center justify-between gap-4">
+                <span>Draw live captions into the video</span>
+                <input
+                  type="checkbox"
+                  checked={captions.enabled}
+                  onChange={(e) => setCaptions(c => ({ ...c, enabled: e.target.checked }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Font</span>
+                <select
+                  className="bg-gray-50 rounded-lg px-2 py-1 border border-gray-200"
+                  value={captions.fontFamily}
+                  onChange={(e) => setCaptions(c => ({ ...c, fontFamily: e.target.value }))}
+                >
+                  {CAPTION_FONTS.map(f => <option key={f.label} value={f.value}>{f.label}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Size</span>
+                <input
+                  type="range"
+                  min={0.02}
+                  max={0.08}
+                  step={0.005}
+                  value={captions.fontScale}
+                  onChange={(e) => setCaptions(c => ({ ...c, fontScale: Number(e.target.value) }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Position</span>
+                <select
+                  className="bg-gray-50 rounded-lg px-2 py-1 border border-gray-200"
+                  value={captions.position}
+                  onChange={(e) => setCaptions(c => ({ ...c, position: e.target.value as CaptionStyle['position'] }))}
+                >
+                  <option value="bottom">Bottom</option>
+                  <option value="middle">Middle</option>
+                  <option value="top">Top</option>
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Max lines</span>
+                <select
+                  className="bg-gray-50 rounded-lg px-2 py-1 border border-gray-200"
+                  value={captions.maxLines}
+                  onChange={(e) => setCaptions(c => ({ ...c, maxLines: Number(e.target.value) }))}
+                >
+                  <option value={1}>1</option>
+                  <option value={2}>2</option>
+                  <option value={3}>3</option>
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Text color</span>
+                <input
+                  type="color"
+                  value={captions.textColor}
+                  onChange={(e) => setCaptions(c => ({ ...c, textColor: e.target.value }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Background box</span>
+                <input
+                  type="checkbox"
+                  checked={captions.showBackground}
+                  onChange={(e) => setCaptions(c => ({ ...c, showBackground: e.target.checked }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>CJK-aware line breaking</span>
+                <input
+                  type="checkbox"
+                  checked={captions.cjkLineBreaking}
+                  onChange={(e) => setCaptions(c => ({ ...c, cjkLineBreaking: e.target.checked }))}
+                />
+              </label>
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Placeholder Slate</h4>
+            <div className="space-y-2 text-sm text-gray-700">
+              <label className="flex items-center justify-between gap-4">
+                <span>Title</span>
+                <input
+                  className="flex-1 max-w-[60%] bg-gray-50 rounded-lg px-2 py-1 border border-gray-200"
+                  value={slate.title}
+                  onChange={(e) => setSlate(s => ({ ...s, title: e.target.value }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Subtitle</span>
+                <input
+                  className="flex-1 max-w-[60%] bg-gray-50 rounded-lg px-2 py-1 border border-gray-200"
+                  value={slate.subtitle}
+                  onChange={(e) => setSlate(s => ({ ...s, subtitle: e.target.value }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Camera bubble text</span>
+                <input
+                  className="flex-1 max-w-[60%] bg-gray-50 rounded-lg px-2 py-1 border border-gray-200"
+                  value={slate.cameraText}
+                  onChange={(e) => setSlate(s => ({ ...s, cameraText: e.target.value }))}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Background</span>
+                <input type="color" value={slate.backgroundColor} onChange={(e) => setSlate(s => ({ ...s, backgroundColor: e.target.value }))} />
+              </label>
+              <label className="flex items-center justify-between gap-4">
+                <span>Text color</span>
+                <input type="color" value={slate.textColor} onChange={(e) => setSlate(s => ({ ...s, textColor: e.target.value }))} />
+              </label>
+              <p className="text-xs text-gray-400">Drawn in place of a screen share or camera that disconnects.</p>
+            </div>
+          </section>
         </div>
 
         <div className="p-4 border-t border-gray-100 flex justify-end gap-2">
           <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg">Cancel</button>
-          <button 
-            onClick={() => { onSave(text); onClose(); }}
+          <button
+            onClick={() => { onSave(text); onSaveSpeechProviders(providers); onSaveSubtitleOptions(subtitles); onSaveCaptionStyle(captions); onSaveMicProcessing(mic); onSaveSlateStyle(slate); onSavePrompterStyle(prompter); if (!isRecording) { onSaveOutputProfile(profileId); onSaveIsoTracks(isoTracks); } onClose(); }}
             className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm"
           >
-            Save Script
+            Save
           </button>
         </div>
       </div>
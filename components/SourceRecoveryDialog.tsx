@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { X, AlertTriangle, Monitor, Webcam } from 'lucide-react';
+import { LostSource } from '../types';
+import { DeviceLists, DeviceSelection, listDevices } from '../services/mediaDevices';
+
+interface SourceRecoveryDialogProps {
+  lostSources: LostSource[];
+  selection: DeviceSelection;
+  isRecording: boolean;
+  onReconnectScreen: () => Promise<void>;
+  onReconnectCamera: (selection: DeviceSelection) => Promise<void>;
+  onDismiss: () => void;
+}
+
+const SOURCE_LABELS: Record<LostSource, string> = {
+  screen: 'Screen share',
+  camera: 'Camera',
+  mic: 'Microphone',
+};
+
+// Shown when a capture source ends (browser "Stop sharing", unplugged USB device).
+// Reconnecting swaps the stream under the canvas/mixer, so a running recording continues.
+export const SourceRecoveryDialog: React.FC<SourceRecoveryDialogProps> = ({
+  lostSources,
+  selection,
+  isRecording,
+  onReconnectScreen,
+  onReconnectCamera,
+  onDismiss
+}) => {
+  const [devices, setDevices] = useState<DeviceLists>({ cameras: [], microphones: [] });
+  const [draft, setDraft] = useState(selection);
+  const [busy, setBusy] = useState(false);
+
+  const isOpen = lostSources.length > 0;
+  const needsCamera = lostSources.includes('camera') || lostSources.includes('mic');
+
+  // Keep the device lists current: the usual fix is plugging the device back in
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(selection);
+    const refresh = () => listDevices().then(setDevices).catch(e => console.warn('enumerateDevices failed', e));
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectClass = "w-full bg-gray-50 rounded-lg px-2 py-1.5 text-sm border border-gray-200 focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+            <AlertTriangle size={18} className="text-amber-500" />
+            Source Disconnected
+          </h3>
+          <button onClick={onDismiss} className="p-1 hover:bg-gray-100 rounded-full transition-colors">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-500">
+            {lostSources.map(s => SOURCE_LABELS[s]).join(', ')} stopped.
+            {isRecording
+              ? ' The recording is still running and shows the placeholder slate until you reconnect.'
+              : ' A placeholder slate is shown until you reconnect.'}
+          </p>
+
+          {lostSources.includes('screen') && (
+            <button
+              onClick={() => run(onReconnectScreen)}
+              disabled={busy}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+            >
+              <Monitor size={16} /> Choose screen to share…
+            </button>
+          )}
+
+          {needsCamera && (
+            <div className="space-y-2">
+              <select
+                className={selectClass}
+                value={draft.cameraId || ''}
+                onChange={(e) => setDraft(d => ({ ...d, cameraId: e.target.value || null }))}
+              >
+                <option value="">Default camera</option>
+                {devices.cameras.map((d, i) => (
+                  <option key={d.deviceId} value={d.deviceId}>{d.label || `Camera ${i + 1}`}</option>
+                ))}
+              </select>
+              <select
+                className={selectClass}
+                value={draft.micId || ''}
+                onChange={(e) => setDraft(d => ({ ...d, micId: e.target.value || null }))}
+              >
+                <option value="">Default microphone</option>
+                {devices.microphones.map((d, i) => (
+                  <option key={d.deviceId} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => run(() => onReconnectCamera(draft))}
+                disabled={busy}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+              >
+                <Webcam size={16} /> Reconnect camera &amp; mic
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end">
+          <button onClick={onDismiss} className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg">Continue without</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,59 +1,87 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { AiFeature } from '../types';
-import { Mic, ChevronUp, ChevronDown } from 'lucide-react';
+import { AiFeature, ConnectionState, PrompterStyle } from '../types';
+import { Mic, ChevronUp, ChevronDown, RefreshCw, ExternalLink, PictureInPicture2, Play, Pause, Minus, Plus } from 'lucide-react';
+import { isCJK } from '../services/textTokens';
+import { parseScript, ScriptSegment, splitRunsAtToken } from '../services/scriptMarkup';
+import { ScriptAligner } from '../services/scriptAligner';
+import { CPM_RANGE, isMostlyCJK, PacingSettings, PrompterMode, ScrollPacer, WPM_RANGE } from '../services/prompterPacer';
+import { openPrompterWindow, PrompterWindow, supportsDocumentPip } from './PrompterWindow';
 
 interface TopPanelProps {
   feature: AiFeature;
   interviewerText: string;
   teleprompterScript: string;
-  transcript: string; // The accumulated transcript matching current session
+  transcript: string; // Deduplicated transcript of the current session (the last sentence may still be revised)
+  connectionState: ConnectionState;
+  prompterStyle: PrompterStyle;
+  onChangePrompterStyle: (style: PrompterStyle) => void;
+  pacing: PacingSettings;
+  onChangePacing: (settings: PacingSettings) => void;
+  // Speech recognition failed or isn't available; timed scrolling takes over
+  speechLost: boolean;
 }
 
-// Utility to check for CJK characters
-const isCJK = (str: string) => /[\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af]/.test(str);
-
-// Advanced Tokenizer for mixed Chinese/English
-const parseSegmentToTokens = (segment: string): string[] => {
-    const tokens: string[] = [];
-    // Split by non-word boundaries but keep CJK chars as individual tokens
-    // This regex looks for: English words OR individual CJK chars
-    const regex = /[a-zA-Z0-9]+|[\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af]/g;
-    let match;
-    while ((match = regex.exec(segment)) !== null) {
-        tokens.push(match[0]);
-    }
-    return tokens;
-};
+const MODES: { id: PrompterMode; label: string }[] = [
+  { id: 'voice', label: 'Voice' },
+  { id: 'timer', label: 'Timer' },
+  { id: 'hybrid', label: 'Hybrid' },
+];
 
 export const TopPanel: React.FC<TopPanelProps> = ({ 
   feature, 
   interviewerText, 
   teleprompterScript,
-  transcript 
+  transcript,
+  connectionState,
+  prompterStyle,
+  onChangePrompterStyle,
+  pacing,
+  onChangePacing,
+  speechLost
 }) => {
   const [show, setShow] = useState(false);
   
   // -- Teleprompter State --
   const [activeSegmentIndex, setActiveSegmentIndex] = useState(0);
   const [matchedWordCount, setMatchedWordCount] = useState(0);
-  const lastTranscriptLengthRef = useRef(0);
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Pop-out prompter (second window or Document Picture-in-Picture)
+  const [prompterWindow, setPrompterWindow] = useState<Window | null>(null);
+  // Timed scrolling (timer/hybrid modes, or voice mode while ASR is lost)
+  const [running, setRunning] = useState(false);
+
+  // Sentences, sections, notes and cues (see services/scriptMarkup)
+  const segments = useMemo(() => parseScript(teleprompterScript || ''), [teleprompterScript]);
+
+  // Only spoken sentences have tokens; everything else is passed over by matching and timing
+  const segmentTokensMap = useMemo(() => segments.map(seg => seg.tokens), [segments]);
+
+  // Where each segment starts in the flattened script, which is what the aligner follows
+  const segmentOffsets = useMemo(() => {
+    let offset = 0;
+    return segmentTokensMap.map(tokens => {
+      const start = offset;
+      offset += tokens.length;
+      return start;
+    });
+  }, [segmentTokensMap]);
 
-  // Split script into sentence-like segments for cleaner display
-  const segments = useMemo(() => {
-    if (!teleprompterScript) return [];
-    // Split by punctuation, but also respect newlines if user manually formatted
-    return teleprompterScript
-        .replace(/([.!?。！？])\s*/g, "$1|") // Add separator after punctuation
-        .split('|')
-        .map(s => s.trim())
-        .filter(s => s.length > 0);
-  }, [teleprompterScript]);
-
-  // Pre-tokenize all segments for faster runtime matching
-  const segmentTokensMap = useMemo(() => {
-    return segments.map(seg => parseSegmentToTokens(seg));
-  }, [segments]);
+  const scriptTokens = useMemo(() => segmentTokensMap.flat(), [segmentTokensMap]);
+  const aligner = useMemo(() => new ScriptAligner(scriptTokens), [scriptTokens]);
+  const pacer = useMemo(() => new ScrollPacer(
+    scriptTokens,
+    pacing,
+    segments.flatMap((seg, i) => seg.kind === 'pause' ? [{ position: segmentOffsets[i], ms: (seg.seconds || 0) * 1000 }] : [])
+  ), [scriptTokens]);
+  const cjkScript = useMemo(() => isMostlyCJK(scriptTokens), [scriptTokens]);
+
+  const asrLost = speechLost || connectionState === ConnectionState.RECONNECTING;
+  // Whether the pacer, rather than the voice, moves the prompter
+  const timed = pacing.mode !== 'voice' || asrLost;
+
+  useEffect(() => {
+    pacer.setSpeed(pacing);
+  }, [pacer, pacing]);
 
   useEffect(() => {
     setShow(feature !== AiFeature.NONE);
@@ -61,110 +89,130 @@ export const TopPanel: React.FC<TopPanelProps> = ({
 
   // Reset state when script changes or feature toggles
   useEffect(() => {
-    setActiveSegmentIndex(0);
-    setMatchedWordCount(0);
-    lastTranscriptLengthRef.current = 0;
-  }, [teleprompterScript, feature]);
+    showPosition(0);
+    setRunning(false);
+    aligner.reset();
+    pacer.seek(0);
+  }, [aligner, pacer, feature]);
 
-  // -- High Performance Matching Logic --
+  // Show a position in the flattened script: the segment it falls in and how much of it is read.
+  // A finished segment moves straight on to the next one.
+  const showPosition = (position: number) => {
+    let index = segments.length;
+    for (let i = 0; i < segments.length; i++) {
+      if (position < segmentOffsets[i] + segmentTokensMap[i].length) {
+        index = i;
+        break;
+      }
+    }
+    setActiveSegmentIndex(index);
+    setMatchedWordCount(index < segments.length ? position - segmentOffsets[index] : 0);
+  };
+
+  // -- Script Following --
+  // The aligner tolerates homophones, number formats and skipped or repeated passages
   useEffect(() => {
-    if (feature !== AiFeature.TELEPROMPTER) return;
-    
-    const fullTranscript = transcript; // Keep original casing for some things, but match lowercase
-    const prevLen = lastTranscriptLengthRef.current;
-    
-    // Only process NEW text from the transcript
-    if (fullTranscript.length <= prevLen) return;
-    
-    const newText = fullTranscript.slice(prevLen);
-    lastTranscriptLengthRef.current = fullTranscript.length;
-    
-    // Tokenize spoken input similarly (words or CJK chars)
-    const spokenTokens = parseSegmentToTokens(newText);
-    if (spokenTokens.length === 0) return;
-    
-    const currentTokens = segmentTokensMap[activeSegmentIndex];
-    if (!currentTokens) return; // End of script
-    
-    let currentMatchIndex = matchedWordCount;
-    
-    // 1. Match against Current Segment
-    for (const token of spokenTokens) {
-        const spokenClean = token.toLowerCase();
-        
-        // Greedy forward matching with lookahead window of 4 (Increased for speed)
-        let matchFound = false;
-        
-        for (let offset = 0; offset <= 4; offset++) {
-            const checkIndex = currentMatchIndex + offset;
-            if (checkIndex >= currentTokens.length) break;
-            
-            const scriptToken = currentTokens[checkIndex].toLowerCase();
-            
-            if (spokenClean === scriptToken) {
-                currentMatchIndex = checkIndex + 1; // Advance
-                matchFound = true;
-                break;
-            }
-        }
-
-        // 2. Cross-Segment Lookahead (The "Jump" Feature)
-        // CRITICAL UPDATE: Only look ahead if we are somewhat deep into the current line (e.g. > 60%).
-        // This prevents early false jumps if the next line starts with a common word that appears early in current line.
-        const completionRatio = currentTokens.length > 0 ? (currentMatchIndex / currentTokens.length) : 1;
-        
-        if (!matchFound && activeSegmentIndex < segments.length - 1 && completionRatio > 0.6) {
-            const nextTokens = segmentTokensMap[activeSegmentIndex + 1];
-            if (nextTokens && nextTokens.length > 0) {
-                 // Check first 3 tokens of next segment (Reduced window from 5 to 3 for stricter matching)
-                 for (let j = 0; j < Math.min(3, nextTokens.length); j++) {
-                     if (spokenClean === nextTokens[j].toLowerCase()) {
-                         // JUMP!
-                         // Clear timeout if any
-                         if (scrollTimeoutRef.current) {
-                             clearTimeout(scrollTimeoutRef.current);
-                             scrollTimeoutRef.current = null;
-                         }
-                         setActiveSegmentIndex(prev => prev + 1);
-                         setMatchedWordCount(j + 1);
-                         return; // Exit effect immediately to process next render
-                     }
-                 }
-            }
-        }
+    if (feature !== AiFeature.TELEPROMPTER || pacing.mode === 'timer') return;
+
+    const before = aligner.position;
+    const { position, resynced } = aligner.follow(transcript);
+    if (resynced) console.log(`📜 Teleprompter re-synced to word ${position}`);
+    if (position === before) return;
+
+    // The pacer learns the speaker's pace either way, for hybrid correction and ASR loss
+    pacer.hear(position);
+    if (pacing.mode === 'hybrid') {
+      setRunning(true);
+      showPosition(pacer.currentPosition);
+    } else {
+      showPosition(position);
     }
-    
-    setMatchedWordCount(currentMatchIndex);
-    
-    // Auto Advance logic - STRICT SYNC
-    // Only advance if we have matched ALL tokens in the current line.
-    if (currentTokens.length > 0 && currentMatchIndex >= currentTokens.length) {
-        if (!scrollTimeoutRef.current) {
-            // Very short debounce just to ensure render update happens cleanly
-            scrollTimeoutRef.current = setTimeout(() => {
-                setActiveSegmentIndex(prev => Math.min(prev + 1, segments.length));
-                setMatchedWordCount(0);
-                scrollTimeoutRef.current = null;
-            }, 50); 
-        }
+  }, [transcript, aligner, pacer, feature, pacing.mode]);
+
+  // Voice mode: keep scrolling at the learned pace while ASR is lost, hand back when it returns
+  useEffect(() => {
+    if (feature !== AiFeature.TELEPROMPTER || pacing.mode !== 'voice') return;
+    if (asrLost) {
+      if (pacer.currentPosition > 0) setRunning(true);
+    } else {
+      setRunning(false);
+      if (pacer.currentPosition !== aligner.position) aligner.seek(pacer.currentPosition);
     }
-    
-  }, [transcript, activeSegmentIndex, matchedWordCount, segmentTokensMap, segments.length, feature]);
+  }, [asrLost, feature, pacing.mode]);
+
+  // -- Timed Scrolling --
+  useEffect(() => {
+    if (feature !== AiFeature.TELEPROMPTER || !timed || !running) return;
+    let last = performance.now();
+    const timer = setInterval(() => {
+      const now = performance.now();
+      const position = pacer.advance(now - last);
+      last = now;
+      showPosition(position);
+      if (position >= scriptTokens.length) setRunning(false);
+    }, 100);
+    return () => clearInterval(timer);
+  }, [pacer, feature, timed, running]);
+
+  // Live speed adjustment, in characters per minute for CJK scripts and words otherwise
+  const adjustSpeed = (direction: 1 | -1) => {
+    const range = cjkScript ? CPM_RANGE : WPM_RANGE;
+    const key = cjkScript ? 'charsPerMinute' : 'wordsPerMinute';
+    const value = Math.min(range.max, Math.max(range.min, pacing[key] + direction * range.step));
+    onChangePacing({ ...pacing, [key]: value });
+  };
 
   // -- Manual Control Logic --
   const handleManualScroll = (direction: 'next' | 'prev') => {
-    setActiveSegmentIndex(prev => {
-        const nextIdx = direction === 'next' 
-            ? Math.min(prev + 1, segments.length - 1)
-            : Math.max(prev - 1, 0);
-        
-        if (nextIdx !== prev) {
-             setMatchedWordCount(0); // Reset highlighting for new line
-        }
-        return nextIdx;
-    });
+    // Step between spoken sentences; cues and notes in between stay visible as context
+    const step = direction === 'next' ? 1 : -1;
+    let nextIdx = activeSegmentIndex + step;
+    while (nextIdx >= 0 && nextIdx < segments.length && segmentTokensMap[nextIdx].length === 0) nextIdx += step;
+    if (nextIdx < 0 || nextIdx >= segments.length) return;
+
+    // Start the new line from scratch and let the aligner and pacer follow on from there
+    aligner.seek(segmentOffsets[nextIdx]);
+    pacer.seek(segmentOffsets[nextIdx]);
+    setActiveSegmentIndex(nextIdx);
+    setMatchedWordCount(0);
   };
 
+  // -- Pop-out Prompter --
+  const openPrompter = async (pictureInPicture: boolean) => {
+    if (prompterWindow) {
+      prompterWindow.focus();
+      return;
+    }
+    try {
+      const win = await openPrompterWindow(pictureInPicture);
+      if (!win) {
+        alert('The prompter window was blocked. Allow pop-ups for this site and try again.');
+        return;
+      }
+      setPrompterWindow(win);
+    } catch (e: any) {
+      console.error('Failed to open prompter window', e);
+      alert(`Could not open the prompter window: ${e.message}`);
+    }
+  };
+
+  const closePrompter = () => {
+    prompterWindow?.close();
+    setPrompterWindow(null);
+  };
+
+  // The pop-out only exists alongside the teleprompter, and not beyond this page
+  useEffect(() => {
+    if (!prompterWindow) return;
+    if (feature !== AiFeature.TELEPROMPTER) {
+      closePrompter();
+      return;
+    }
+    const handleUnload = () => prompterWindow.close();
+    window.addEventListener('pagehide', handleUnload);
+    return () => window.removeEventListener('pagehide', handleUnload);
+  }, [prompterWindow, feature]);
+
   const handleWheel = (e: React.WheelEvent) => {
     if (feature !== AiFeature.TELEPROMPTER) return;
     
@@ -181,32 +229,55 @@ export const TopPanel: React.FC<TopPanelProps> = ({
 
   if (!show) return null;
 
-  // Helper to render text with CJK handling
-  const renderSegmentText = (segment: string, tokens: string[], matchedCount: number) => {
-      // Basic reconstruction for highlighting. 
+  // Cues, sections and notes are shown to the reader but never spoken
+  const renderCue = (segment: ScriptSegment) => {
+      switch (segment.kind) {
+          case 'section':
+              return <span className="uppercase tracking-widest text-white/60">§ {segment.text}</span>;
+          case 'note':
+              return <span className="italic text-sky-300/80">✎ {segment.text}</span>;
+          case 'pause':
+              return <span className="px-2 py-0.5 rounded-full bg-amber-400/20 text-amber-300">⏸ Pause {segment.seconds}s</span>;
+          case 'slide':
+              return <span className="px-2 py-0.5 rounded-full bg-blue-400/20 text-blue-300">▶ Next slide{segment.text ? `: ${segment.text}` : ''}</span>;
+          default:
+              return segment.text;
+      }
+  };
+
+  // Highlight what has been read, keeping punctuation and stressed words
+  const renderSegmentText = (segment: ScriptSegment, matchedCount: number) => {
+      if (segment.kind !== 'speech') return renderCue(segment);
       return (
         <span className="break-words">
-            {tokens.map((token, idx) => {
-                const isMatched = idx < matchedCount;
-                const isCurrentCJK = isCJK(token);
-                // Determine if we need a space before this token (simplistic approach)
-                return (
-                    <span 
-                        key={idx} 
-                        className={`inline-block transition-colors duration-75 ${
-                            isMatched ? 'text-green-400' : 'text-white'
-                        } ${!isCurrentCJK ? 'mr-1.5' : ''}`}
-                    >
-                        {token}
-                    </span>
-                );
-            })}
+            {splitRunsAtToken(segment.runs, matchedCount).map((run, idx) => (
+                <span
+                    key={idx}
+                    className={`transition-colors duration-75 ${run.read ? 'text-green-400' : 'text-white'} ${
+                        run.strong ? 'font-extrabold underline decoration-2 underline-offset-4' : ''
+                    } ${run.em ? 'italic' : ''}`}
+                >
+                    {run.text}
+                </span>
+            ))}
         </span>
       );
   };
 
   return (
     <div className="fixed top-8 left-1/2 -translate-x-1/2 z-40 w-full max-w-3xl px-4 animate-in slide-in-from-top-4 duration-500 pointer-events-none">
+      {prompterWindow && (
+        <PrompterWindow
+          target={prompterWindow}
+          segments={segments}
+          activeSegmentIndex={activeSegmentIndex}
+          matchedWordCount={matchedWordCount}
+          style={prompterStyle}
+          onChangeStyle={onChangePrompterStyle}
+          onStep={handleManualScroll}
+          onClose={closePrompter}
+        />
+      )}
       <div 
         className="bg-black/70 backdrop-blur-xl border border-white/10 shadow-2xl rounded-2xl overflow-hidden pointer-events-auto"
         onWheel={handleWheel}
@@ -220,11 +291,73 @@ export const TopPanel: React.FC<TopPanelProps> = ({
                     {feature === AiFeature.INTERVIEWER ? 'AI Interviewer' : 'Teleprompter'}
                 </span>
             </div>
-            {feature === AiFeature.TELEPROMPTER && (
-                <div className="text-[10px] text-white/40 font-mono">
-                    {activeSegmentIndex + 1} / {segments.length}
-                </div>
-            )}
+            <div className="flex items-center gap-3">
+                {connectionState === ConnectionState.RECONNECTING && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-400/20 text-amber-300 text-[10px] font-semibold uppercase tracking-wider">
+                        <RefreshCw size={10} className="animate-spin" />
+                        Reconnecting
+                    </span>
+                )}
+                {feature === AiFeature.TELEPROMPTER && asrLost && pacing.mode !== 'timer' && (
+                    <span className="px-2 py-0.5 rounded-full bg-amber-400/20 text-amber-300 text-[10px] font-semibold uppercase tracking-wider">
+                        Voice lost · timed
+                    </span>
+                )}
+                {feature === AiFeature.TELEPROMPTER && (
+                    <>
+                        <div className="flex items-center rounded-md bg-white/5 p-0.5">
+                            {MODES.map(m => (
+                                <button
+                                    key={m.id}
+                                    onClick={() => onChangePacing({ ...pacing, mode: m.id })}
+                                    className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wider transition-colors ${pacing.mode === m.id ? 'bg-white/20 text-white' : 'text-white/40 hover:text-white'}`}
+                                >
+                                    {m.label}
+                                </button>
+                            ))}
+                        </div>
+                        {timed && (
+                            <div className="flex items-center gap-1 text-white/60">
+                                <button
+                                    onClick={() => setRunning(r => !r)}
+                                    className="p-1 rounded-md hover:bg-white/10 hover:text-white transition-colors"
+                                    title={running ? 'Pause scrolling' : 'Start scrolling'}
+                                >
+                                    {running ? <Pause size={14} /> : <Play size={14} />}
+                                </button>
+                                <button onClick={() => adjustSpeed(-1)} className="p-1 rounded-md hover:bg-white/10 hover:text-white transition-colors" title="Slower">
+                                    <Minus size={12} />
+                                </button>
+                                <span className="text-[10px] font-mono w-14 text-center">
+                                    {cjkScript ? `${pacing.charsPerMinute} cpm` : `${pacing.wordsPerMinute} wpm`}
+                                </span>
+                                <button onClick={() => adjustSpeed(1)} className="p-1 rounded-md hover:bg-white/10 hover:text-white transition-colors" title="Faster">
+                                    <Plus size={12} />
+                                </button>
+                            </div>
+                        )}
+                        <button
+                            onClick={() => openPrompter(false)}
+                            className={`p-1 rounded-md hover:bg-white/10 transition-colors ${prompterWindow ? 'text-green-400' : 'text-white/40 hover:text-white'}`}
+                            title="Pop out prompter window"
+                        >
+                            <ExternalLink size={14} />
+                        </button>
+                        {supportsDocumentPip() && (
+                            <button
+                                onClick={() => openPrompter(true)}
+                                className="p-1 rounded-md hover:bg-white/10 text-white/40 hover:text-white transition-colors"
+                                title="Always-on-top prompter (picture-in-picture)"
+                            >
+                                <PictureInPicture2 size={14} />
+                            </button>
+                        )}
+                        <div className="text-[10px] text-white/40 font-mono">
+                            {activeSegmentIndex + 1} / {segments.length}
+                        </div>
+                    </>
+                )}
+            </div>
         </div>
 
         {/* Content Area */}
@@ -257,7 +390,7 @@ export const TopPanel: React.FC<TopPanelProps> = ({
                     >
                          {activeSegmentIndex > 0 && (
                             <p className="text-sm text-white/20 truncate transition-all duration-500 blur-[0.5px]">
-                                {segments[activeSegmentIndex - 1]}
+                                {renderCue(segments[activeSegmentIndex - 1])}
                             </p>
                          )}
                     </div>
@@ -266,11 +399,7 @@ export const TopPanel: React.FC<TopPanelProps> = ({
                     <div className="w-full text-center transition-all duration-300 transform px-8">
                         {segments[activeSegmentIndex] ? (
                             <p className="text-2xl md:text-3xl font-bold leading-normal text-white">
-                                {renderSegmentText(
-                                    segments[activeSegmentIndex], 
-                                    segmentTokensMap[activeSegmentIndex], 
-                                    matchedWordCount
-                                )}
+                                {renderSegmentText(segments[activeSegmentIndex], matchedWordCount)}
                             </p>
                         ) : (
                             <p className="text-xl text-green-400 font-medium italic">End of script</p>
@@ -284,7 +413,7 @@ export const TopPanel: React.FC<TopPanelProps> = ({
                     >
                         {activeSegmentIndex < segments.length - 1 && (
                             <p className="text-lg text-white/30 truncate transition-all duration-500">
-                                {segments[activeSegmentIndex + 1]}
+                                {renderCue(segments[activeSegmentIndex + 1])}
                             </p>
                         )}
                     </div>
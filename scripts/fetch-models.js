@@ -0,0 +1,37 @@
+// Downloads the on-device models into public/models, where the app loads them from its own
+// origin (nothing is fetched from third parties at runtime).
+// Usage:
+//   node scripts/fetch-models.js            (skips files that already exist)
+//   node scripts/fetch-models.js --force
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const MODELS = [
+  {
+    file: 'selfie_segmenter.tflite',
+    url: 'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite',
+  },
+];
+
+const outDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public/models');
+const force = process.argv.includes('--force');
+
+fs.mkdirSync(outDir, { recursive: true });
+
+for (const model of MODELS) {
+  const target = path.join(outDir, model.file);
+  if (!force && fs.existsSync(target)) {
+    console.log(`✓ ${model.file} already present`);
+    continue;
+  }
+  const res = await fetch(model.url);
+  if (!res.ok) {
+    console.error(`❌ ${model.file}: HTTP ${res.status}`);
+    process.exitCode = 1;
+    continue;
+  }
+  fs.writeFileSync(target, Buffer.from(await res.arrayBuffer()));
+  console.log(`✅ ${model.file} saved to ${path.relative(process.cwd(), target)}`);
+}
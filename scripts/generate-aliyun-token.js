@@ -6,7 +6,7 @@
 // Or provide credentials as command line arguments:
 //   node scripts/generate-aliyun-token.js <ACCESS_KEY_ID> <ACCESS_KEY_SECRET>
 
-import https from 'https';
+import { createToken } from '../server/aliyunToken.js';
 
 const ACCESS_KEY_ID = process.argv[2] || process.env.ALIYUN_ACCESS_KEY_ID;
 const ACCESS_KEY_SECRET = process.argv[3] || process.env.ALIYUN_ACCESS_KEY_SECRET;
@@ -23,34 +23,15 @@ if (!ACCESS_KEY_ID || !ACCESS_KEY_SECRET) {
   process.exit(1);
 }
 
-// Correct URL according to Aliyun documentation
-const url = `https://nls-meta.cn-shanghai.aliyuncs.com/?Action=CreateToken&AccessKeyId=${encodeURIComponent(ACCESS_KEY_ID)}&Format=JSON`;
-
-https.get(url, (res) => {
-  let data = '';
-
-  res.on('data', (chunk) => {
-    data += chunk;
-  });
-
-  res.on('end', () => {
-    try {
-      const result = JSON.parse(data);
-      if (result.Token && result.Token.Id) {
-        console.log('\n✅ Token generated successfully!\n');
-        console.log('Token:', result.Token.Id);
-        console.log('Expires:', new Date(result.Token.ExpireTime * 1000).toLocaleString());
-        console.log('\nAdd this to your .env.local file:');
-        console.log(`ALIYUN_TOKEN=${result.Token.Id}`);
-      } else {
-        console.error('❌ Failed to generate token:');
-        console.error(JSON.stringify(result, null, 2));
-      }
-    } catch (e) {
-      console.error('❌ Error parsing response:', e.message);
-      console.error('Response:', data);
-    }
+createToken(ACCESS_KEY_ID, ACCESS_KEY_SECRET)
+  .then(({ token, expireTime }) => {
+    console.log('\n✅ Token generated successfully!\n');
+    console.log('Token:', token);
+    console.log('Expires:', new Date(expireTime).toLocaleString());
+    console.log('\nThe app fetches tokens from the token server automatically;');
+    console.log('use this one for manual testing only.');
+  })
+  .catch((e) => {
+    console.error('❌ Failed to generate token:', e.message);
+    process.exit(1);
   });
-}).on('error', (e) => {
-  console.error('❌ Request failed:', e.message);
-});
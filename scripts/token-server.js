@@ -0,0 +1,35 @@
+// Standalone ASR token server for production deployments.
+// Serves GET /api/asr/token using the same issuer as the Vite dev server.
+// Usage:
+//   ALIYUN_ACCESS_KEY_ID=... ALIYUN_ACCESS_KEY_SECRET=... ALIYUN_APP_KEY=... node scripts/token-server.js
+//   (optional) ASR_TOKEN_PORT=8787 ASR_TOKEN_ALLOW_ORIGIN=https://rec.tuili.ai
+
+import http from 'http';
+import { createTokenIssuer, TOKEN_PATH } from '../server/aliyunToken.js';
+
+const PORT = Number(process.env.ASR_TOKEN_PORT || 8787);
+const ALLOW_ORIGIN = process.env.ASR_TOKEN_ALLOW_ORIGIN || '';
+
+const issuer = createTokenIssuer({
+  accessKeyId: process.env.ALIYUN_ACCESS_KEY_ID,
+  accessKeySecret: process.env.ALIYUN_ACCESS_KEY_SECRET,
+  appKey: process.env.ALIYUN_APP_KEY,
+});
+
+const server = http.createServer((req, res) => {
+  if (ALLOW_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOW_ORIGIN);
+  }
+
+  const path = (req.url || '').split('?')[0];
+  if (path !== TOKEN_PATH) {
+    res.statusCode = 404;
+    res.end();
+    return;
+  }
+  issuer.middleware(req, res);
+});
+
+server.listen(PORT, () => {
+  console.log(`✅ ASR token server listening on http://localhost:${PORT}${TOKEN_PATH}`);
+});
@@ -0,0 +1,114 @@
+// Server-side Aliyun NLS token issuing.
+// Signs CreateToken with the AccessKey secret (POP RPC signature v1) and caches the
+// token until shortly before its ExpireTime, so the secret never reaches the browser.
+
+import crypto from 'crypto';
+
+const ENDPOINT = 'https://nls-meta.cn-shanghai.aliyuncs.com/';
+// Path the browser fetches tokens from (dev server plugin and standalone server)
+export const TOKEN_PATH = '/api/asr/token';
+// Refresh a little before Aliyun actually expires the token
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+// RFC 3986 encoding as required by the POP signature spec
+const percentEncode = (value) =>
+  encodeURIComponent(value)
+    .replace(/\+/g, '%20')
+    .replace(/\*/g, '%2A')
+    .replace(/%7E/g, '~')
+    .replace(/[!'()]/g, (c) => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+
+export function buildSignedTokenUrl(accessKeyId, accessKeySecret, regionId = 'cn-shanghai') {
+  const params = {
+    AccessKeyId: accessKeyId,
+    Action: 'CreateToken',
+    Format: 'JSON',
+    RegionId: regionId,
+    SignatureMethod: 'HMAC-SHA1',
+    SignatureNonce: crypto.randomUUID(),
+    SignatureVersion: '1.0',
+    Timestamp: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    Version: '2019-02-28',
+  };
+
+  const canonicalized = Object.keys(params)
+    .sort()
+    .map((k) => `${percentEncode(k)}=${percentEncode(params[k])}`)
+    .join('&');
+
+  const stringToSign = `GET&${percentEncode('/')}&${percentEncode(canonicalized)}`;
+  const signature = crypto
+    .createHmac('sha1', `${accessKeySecret}&`)
+    .update(stringToSign)
+    .digest('base64');
+
+  return `${ENDPOINT}?Signature=${percentEncode(signature)}&${canonicalized}`;
+}
+
+export async function createToken(accessKeyId, accessKeySecret) {
+  const response = await fetch(buildSignedTokenUrl(accessKeyId, accessKeySecret));
+  const result = await response.json();
+
+  if (!result.Token || !result.Token.Id) {
+    throw new Error(`CreateToken failed: ${result.Message || result.Code || response.statusText}`);
+  }
+
+  return {
+    token: result.Token.Id,
+    // Aliyun returns seconds since epoch
+    expireTime: result.Token.ExpireTime * 1000,
+  };
+}
+
+export function createTokenIssuer({ accessKeyId, accessKeySecret, appKey }) {
+  let cached = null;
+  let inflight = null;
+
+  const getToken = async () => {
+    if (!accessKeyId || !accessKeySecret) {
+      throw new Error('ALIYUN_ACCESS_KEY_ID / ALIYUN_ACCESS_KEY_SECRET not configured on the server');
+    }
+
+    if (cached && cached.expireTime - EXPIRY_MARGIN_MS > Date.now()) {
+      return cached;
+    }
+
+    // Collapse concurrent refreshes into one upstream request
+    if (!inflight) {
+      inflight = createToken(accessKeyId, accessKeySecret)
+        .then((t) => {
+          cached = { ...t, appKey };
+          console.log(`[asr-token] Issued new token, expires ${new Date(t.expireTime).toISOString()}`);
+          return cached;
+        })
+        .finally(() => {
+          inflight = null;
+        });
+    }
+    return inflight;
+  };
+
+  // Connect/Node style middleware: GET -> { token, appKey, expireTime }
+  const middleware = async (req, res) => {
+    if (req.method !== 'GET') {
+      res.statusCode = 405;
+      res.end();
+      return;
+    }
+
+    try {
+      const body = await getToken();
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Cache-Control', 'no-store');
+      res.end(JSON.stringify(body));
+    } catch (e) {
+      console.error('[asr-token]', e.message);
+      res.statusCode = 502;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: e.message }));
+    }
+  };
+
+  return { getToken, middleware };
+}
@@ -1,10 +1,31 @@
-import { AiFeature } from '../types';
+import { AiFeature, ConnectionState, SpeechProviderId } from '../types';
+import { getSpeechInputStream, SpeechCallbacks, SpeechProvider, TranscriptResult } from './speechProvider';
+import { TranscriptStore } from './transcriptStore';
+
+// Fetch a fresh token this long before the cached one expires
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Reconnect backoff: 0.5s, 1s, 2s ... capped at 15s, give up after 8 tries
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// Keep at most 30s of 16kHz 16-bit PCM while the socket is down
+const MAX_BUFFERED_AUDIO_BYTES = 16000 * 2 * 30;
+// Aliyun closes the socket with this code when the token is expired/invalid
+const TOKEN_EXPIRED_CLOSE_CODE = 4402;
+
+interface AudioChunk {
+  data: ArrayBuffer;
+  capturedAt: number; // epoch ms of the chunk's first sample
+}
+
+// 16kHz mono 16-bit PCM
+const PCM_BYTES_PER_MS = 32;
 
-interface AsrCallbacks {
-  onTranscriptUpdate: (text: string) => void;
-  onInterviewerQuestion?: (text: string) => void;
-  onOpen: () => void;
-  onError: (e: Error) => void;
+// Where a run of contiguous audio starts: task audio offset -> wall-clock time
+interface AudioAnchor {
+  offset: number;
+  wallClock: number;
 }
 
 interface AliyunAsrConfig {
@@ -17,46 +38,100 @@ interface AliyunAsrConfig {
   enableInverseTextNormalization: boolean;
 }
 
-export class AliyunAsrService {
+export class AliyunAsrService implements SpeechProvider {
+  readonly id = SpeechProviderId.ALIYUN;
+  readonly label = 'Aliyun ASR';
+  readonly supportedFeatures = [AiFeature.TELEPROMPTER, AiFeature.INTERVIEWER];
+
   private ws: WebSocket | null = null;
   private audioContext: AudioContext | null = null;
   private mediaStreamSource: MediaStreamAudioSourceNode | null = null;
   private processor: ScriptProcessorNode | null = null;
+  // Only streams we opened ourselves get stopped on disconnect
+  private ownsInputStream = false;
   private currentFeature: AiFeature = AiFeature.NONE;
   private isConnected = false;
-  private callbacks: AsrCallbacks | null = null;
+  private callbacks: SpeechCallbacks | null = null;
 
   // Token and config
   private appKey: string = '';
   private token: string = '';
+  private tokenExpireTime: number = 0;
+  private tokenRefreshTimer: NodeJS.Timeout | null = null;
+
+  // Reconnect state
+  private language: string = 'mandarin';
+  private taskId: string = '';
+  private manualClose = false;
+  private hasStartedOnce = false;
+  private startFailed = false; // the initial connect already reported its failure
+  // Bumped by every connect() and disconnect(); a connect that finds it changed after one of
+  // its awaits was stopped or superseded meanwhile and must not go on
+  private connectGeneration = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pendingAudio: AudioChunk[] = [];
+  private pendingAudioBytes = 0;
+  // Aliyun's begin_time/time offsets count milliseconds of audio sent in the current
+  // task. Audio stops flowing while paused, so each contiguous run gets an anchor.
+  private taskAudioSentMs = 0;
+  private audioAnchors: AudioAnchor[] = [];
+  private needsAnchor = true;
+
+  // Paused: mic audio is dropped and a dropped socket is only reopened on resume
+  private isPaused = false;
+  private reconnectOnResume = false;
 
   // Interview mode state
   private lastSpeechTime: number = 0;
   private silenceTimer: NodeJS.Timeout | null = null;
-  private currentTranscript: string = '';
+  private transcript = new TranscriptStore();
 
   constructor() {}
 
+  isAvailable(): boolean {
+    // Credentials live on the token server, so we can't tell from here
+    return true;
+  }
+
   async connect(
     feature: AiFeature,
     scriptContext: string,
-    callbacks: AsrCallbacks
+    callbacks: SpeechCallbacks
   ) {
     this.disconnect();
+    const generation = ++this.connectGeneration;
+    const superseded = () => generation !== this.connectGeneration;
     this.currentFeature = feature;
     this.callbacks = callbacks;
     this.isConnected = false;
-    this.currentTranscript = '';
+    this.manualClose = false;
+    this.hasStartedOnce = false;
+    this.startFailed = false;
+    this.reconnectAttempts = 0;
+    this.isPaused = false;
+    this.reconnectOnResume = false;
+    this.transcript.clear();
+    this.setConnectionState(ConnectionState.CONNECTING);
 
     // Detect language from script context
     const detectedLanguage = this.detectLanguage(scriptContext);
+    this.language = detectedLanguage;
     console.log('Detected language for ASR:', detectedLanguage);
 
     // Get token first
     try {
       await this.getToken();
     } catch (e: any) {
-      callbacks.onError(new Error(`Failed to get Aliyun token: ${e.message}`));
+      if (!superseded()) this.failStart(new Error(`Failed to get Aliyun token: ${e.message}`));
+      return;
+    }
+    if (superseded()) {
+      // Stopped while the token was on its way: don't keep refreshing it for nobody
+      if (this.manualClose && this.tokenRefreshTimer) {
+        clearTimeout(this.tokenRefreshTimer);
+        this.tokenRefreshTimer = null;
+      }
       return;
     }
 
@@ -64,19 +139,36 @@ export class AliyunAsrService {
     try {
       await this.startAudioStream();
     } catch (e: any) {
-      callbacks.onError(new Error(`Failed to start audio: ${e.message}`));
+      if (!superseded()) this.failStart(new Error(`Failed to start audio: ${e.message}`));
+      return;
+    }
+    if (superseded()) {
+      // The mic opened after the session was stopped; don't leave it running
+      this.stopAudioStream();
       return;
     }
 
     // Then connect WebSocket with detected language
     try {
       await this.connectWebSocket(detectedLanguage);
-      callbacks.onOpen();
+      if (!superseded()) callbacks.onOpen();
     } catch (e: any) {
-      callbacks.onError(new Error(`Failed to connect ASR: ${e.message}`));
+      if (!superseded()) this.failStart(new Error(`Failed to connect ASR: ${e.message}`));
     }
   }
 
+  // The session never got going: report it once and leave the CONNECTING state
+  private failStart(error: Error) {
+    if (this.startFailed) return;
+    this.startFailed = true;
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = null;
+    }
+    this.setConnectionState(ConnectionState.DISCONNECTED);
+    this.callbacks?.onError(error);
+  }
+
   private detectLanguage(text: string): string {
     if (!text || text.length === 0) {
       return 'mandarin'; // Default to Chinese
@@ -103,30 +195,42 @@ export class AliyunAsrService {
     }
   }
 
-  private async getToken(): Promise<void> {
-    // For now, we'll use the token directly from env
-    // In production, you should get token from your backend server to avoid exposing credentials
-    const token = process.env.ALIYUN_TOKEN;
-
-    if (token) {
-      // Use pre-generated token
-      this.token = token;
-      this.appKey = process.env.ALIYUN_APP_KEY || '';
-      if (!this.appKey) {
-        throw new Error('Missing ALIYUN_APP_KEY in environment variables');
-      }
-      console.log('Using provided Aliyun token');
+  // Tokens come from our own backend (/api/asr/token), which signs CreateToken server-side
+  private async getToken(force = false): Promise<void> {
+    if (!force && this.token && this.tokenExpireTime - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      if (!this.tokenRefreshTimer) this.scheduleTokenRefresh();
       return;
     }
 
-    // If no token provided, we need to generate one
-    // NOTE: Direct API call from browser will fail due to CORS
-    // You should implement a backend endpoint to generate tokens
-    throw new Error(
-      'ALIYUN_TOKEN not found in environment. ' +
-      'Please generate a token using your backend server or set ALIYUN_TOKEN in .env.local. ' +
-      'To generate token, visit: https://help.aliyun.com/zh/isi/getting-started/obtain-an-access-token'
-    );
+    const endpoint = process.env.ALIYUN_TOKEN_ENDPOINT || '/api/asr/token';
+    const response = await fetch(endpoint, { cache: 'no-store' });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.token) {
+      throw new Error(data.error || `Token endpoint returned ${response.status}`);
+    }
+
+    this.token = data.token;
+    this.tokenExpireTime = data.expireTime;
+    this.appKey = data.appKey || process.env.ALIYUN_APP_KEY || '';
+    if (!this.appKey) {
+      throw new Error('Missing ALIYUN_APP_KEY (set it on the token server or in .env.local)');
+    }
+    console.log('Fetched Aliyun token, expires', new Date(this.tokenExpireTime).toLocaleString());
+
+    this.scheduleTokenRefresh();
+  }
+
+  // Refresh in the background so a reconnect never has to wait on an expired token
+  private scheduleTokenRefresh() {
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+    }
+    const delay = Math.max(this.tokenExpireTime - TOKEN_REFRESH_MARGIN_MS - Date.now(), 10_000);
+    this.tokenRefreshTimer = setTimeout(() => {
+      this.tokenRefreshTimer = null;
+      this.getToken(true).catch(e => console.warn('Background token refresh failed:', e));
+    }, delay);
   }
 
   private async connectWebSocket(language: string = 'mandarin'): Promise<void> {
@@ -146,17 +250,21 @@ export class AliyunAsrService {
         token: this.token,
       });
 
-      this.ws = new WebSocket(`${wsUrl}?${params.toString()}`);
+      const ws = new WebSocket(`${wsUrl}?${params.toString()}`);
+      this.ws = ws;
 
-      this.ws.onopen = () => {
+      ws.onopen = () => {
         console.log('Aliyun ASR WebSocket connected');
 
         // Send start command according to Aliyun protocol
-        const taskId = this.generateTaskId();
+        this.taskId = this.generateTaskId();
+        this.taskAudioSentMs = 0;
+        this.audioAnchors = [];
+        this.needsAnchor = true;
         const startCmd = {
           header: {
             message_id: this.generateMessageId(),
-            task_id: taskId,
+            task_id: this.taskId,
             namespace: 'SpeechTranscriber',
             name: 'StartTranscription',
             appkey: config.appKey,
@@ -167,20 +275,19 @@ export class AliyunAsrService {
             enable_intermediate_result: true,
             enable_punctuation_prediction: true,
             enable_inverse_text_normalization: true,
+            enable_words: true, // Word timings on SentenceEnd for captions/search
             language_hints: [language], // Set language based on script content
           }
         };
 
         console.log('Sending StartTranscription command with language:', language);
-        console.log('Command:', JSON.stringify(startCmd, null, 2));
         console.log('Using AppKey:', config.appKey);
-        console.log('Using Token:', this.token.substring(0, 10) + '...');
-        this.ws?.send(JSON.stringify(startCmd));
-        this.isConnected = true;
+        ws.send(JSON.stringify(startCmd));
+        // Audio is buffered until TranscriptionStarted arrives (see handleAsrMessage)
         resolve();
       };
 
-      this.ws.onmessage = (event) => {
+      ws.onmessage = (event) => {
         try {
           const message = JSON.parse(event.data);
           this.handleAsrMessage(message);
@@ -189,26 +296,119 @@ export class AliyunAsrService {
         }
       };
 
-      this.ws.onerror = (error) => {
+      ws.onerror = (error) => {
         console.error('WebSocket error:', error);
         this.isConnected = false;
         reject(new Error('WebSocket connection failed'));
       };
 
-      this.ws.onclose = (event) => {
+      ws.onclose = (event) => {
         console.log('WebSocket closed:', event.code, event.reason);
+        // Ignore late events from a socket we already replaced
+        if (this.ws !== ws) return;
         this.isConnected = false;
+        this.ws = null;
+
+        if (this.manualClose) return;
+
+        // Closed before TranscriptionStarted (e.g. appkey or token rejected without a TaskFailed):
+        // the initial connect has failed. Only sessions that actually started are recovered.
+        if (!this.hasStartedOnce) {
+          const reason = event.reason ? `: ${event.reason}` : '';
+          this.failStart(new Error(`ASR connection closed before transcription started (code ${event.code}${reason})`));
+          return;
+        }
 
-        // Only notify on truly unexpected errors (not manual disconnect or token issues)
-        // 1000 = Normal closure
-        // 4402 = Token expired or invalid (expected, don't show error to user)
-        if (event.code !== 1000 && event.code !== 4402 && this.callbacks) {
-          this.callbacks.onError(new Error(`WebSocket closed unexpectedly: ${event.code} ${event.reason}`));
+        const tokenExpired = event.code === TOKEN_EXPIRED_CLOSE_CODE;
+        if (tokenExpired) {
+          console.log('Aliyun token expired mid-session, refreshing before reconnect');
+        }
+        // Aliyun drops idle tasks; no point reconnecting until there is audio again
+        if (this.isPaused) {
+          this.reconnectOnResume = true;
+          return;
         }
+        this.scheduleReconnect(tokenExpired);
       };
     });
   }
 
+  // Exponential backoff reconnect with a fresh StartTranscription task.
+  // Audio captured meanwhile keeps accumulating in pendingAudio and is replayed on start.
+  private scheduleReconnect(forceTokenRefresh: boolean) {
+    if (this.manualClose || this.reconnectTimer) return;
+
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.setConnectionState(ConnectionState.DISCONNECTED);
+      this.callbacks?.onError(new Error(`ASR connection lost after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts`));
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    this.setConnectionState(ConnectionState.RECONNECTING);
+    console.log(`Reconnecting Aliyun ASR in ${delay}ms (attempt ${this.reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS})`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.manualClose) return;
+      try {
+        await this.getToken(forceTokenRefresh);
+        await this.connectWebSocket(this.language);
+      } catch (e) {
+        console.warn('Reconnect attempt failed:', e);
+        // A failed handshake may not fire onclose for us, so retry from here too
+        this.ws = null;
+        this.scheduleReconnect(forceTokenRefresh);
+      }
+    }, delay);
+  }
+
+  private setConnectionState(state: ConnectionState) {
+    this.callbacks?.onConnectionStateChange?.(state);
+  }
+
+  private bufferAudio(chunk: AudioChunk) {
+    this.pendingAudio.push(chunk);
+    this.pendingAudioBytes += chunk.data.byteLength;
+    // Drop the oldest audio once the buffer is full; recent speech matters most
+    while (this.pendingAudioBytes > MAX_BUFFERED_AUDIO_BYTES && this.pendingAudio.length > 0) {
+      this.pendingAudioBytes -= this.pendingAudio.shift()!.data.byteLength;
+    }
+  }
+
+  private sendAudio(chunk: AudioChunk) {
+    if (this.needsAnchor) {
+      this.audioAnchors.push({ offset: this.taskAudioSentMs, wallClock: chunk.capturedAt });
+      this.needsAnchor = false;
+    }
+    this.ws!.send(chunk.data);
+    this.taskAudioSentMs += chunk.data.byteLength / PCM_BYTES_PER_MS;
+  }
+
+  // Task audio offset (ms) -> wall-clock epoch ms, using the run the offset falls in
+  private offsetToWallClock(offset: number): number {
+    let anchor = this.audioAnchors[0];
+    if (!anchor) return Date.now();
+    for (const a of this.audioAnchors) {
+      if (a.offset > offset) break;
+      anchor = a;
+    }
+    return anchor.wallClock + (offset - anchor.offset);
+  }
+
+  private flushBufferedAudio() {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    if (this.pendingAudio.length > 0) {
+      console.log(`Replaying ${this.pendingAudioBytes} bytes of buffered audio`);
+    }
+    for (const chunk of this.pendingAudio) {
+      this.sendAudio(chunk);
+    }
+    this.pendingAudio = [];
+    this.pendingAudioBytes = 0;
+  }
+
   private handleAsrMessage(message: any) {
     console.log('Received ASR message (full):', JSON.stringify(message, null, 2));
 
@@ -226,6 +426,11 @@ export class AliyunAsrService {
     // Handle start transcription response
     if (header.name === 'TranscriptionStarted') {
       console.log('Transcription started successfully');
+      this.isConnected = true;
+      this.hasStartedOnce = true;
+      this.reconnectAttempts = 0;
+      this.flushBufferedAudio();
+      this.setConnectionState(ConnectionState.CONNECTED);
       return;
     }
 
@@ -235,13 +440,16 @@ export class AliyunAsrService {
       console.log('Transcription result:', text);
 
       if (text && this.callbacks) {
-        // Update transcript
-        this.callbacks.onTranscriptUpdate(text);
-        this.currentTranscript += ' ' + text;
+        // payload.index numbers the sentence within the task: every revision of it replaces
+        // the previous one and SentenceEnd commits it
+        const result = this.buildTranscriptResult(payload, header.name === 'SentenceEnd');
+        this.transcript.apply(result);
+        this.callbacks.onTranscriptResult(result);
         this.lastSpeechTime = Date.now();
 
-        // For interviewer mode, detect silence and generate questions
-        if (this.currentFeature === AiFeature.INTERVIEWER) {
+        // For interviewer mode, detect silence and generate questions (results still arriving
+        // after pause() must not start a new question)
+        if (this.currentFeature === AiFeature.INTERVIEWER && !this.isPaused) {
           this.handleInterviewMode();
         }
       }
@@ -258,10 +466,38 @@ export class AliyunAsrService {
         payload: payload,
         fullMessage: message
       });
-      this.callbacks?.onError(new Error(`${errorMessage} (Code: ${errorCode})`));
+      if (this.hasStartedOnce) {
+        // Mid-session failure: the server closes the socket next and onclose reconnects
+        return;
+      }
+      this.failStart(new Error(`${errorMessage} (Code: ${errorCode})`));
     }
   }
 
+  // Map Aliyun's task-relative offsets (ms) back to wall-clock time
+  private buildTranscriptResult(payload: any, isFinal: boolean): TranscriptResult {
+    const endOffset = typeof payload.time === 'number' ? payload.time : this.taskAudioSentMs;
+    const beginOffset = typeof payload.begin_time === 'number' ? payload.begin_time : endOffset;
+    const words = Array.isArray(payload.words)
+      ? payload.words.map((w: any) => ({
+          text: w.text,
+          startedAt: this.offsetToWallClock(w.startTime),
+          endedAt: this.offsetToWallClock(w.endTime),
+        }))
+      : undefined;
+
+    return {
+      // Indices restart with every task (reconnects start a new one)
+      sentenceId: `${this.taskId}:${payload.index ?? 0}`,
+      text: payload.result,
+      isFinal,
+      startedAt: this.offsetToWallClock(beginOffset),
+      endedAt: this.offsetToWallClock(endOffset),
+      words,
+      estimated: false,
+    };
+  }
+
   private async handleInterviewMode() {
     // Clear existing timer
     if (this.silenceTimer) {
@@ -270,11 +506,15 @@ export class AliyunAsrService {
 
     // Set new timer for silence detection (2 seconds)
     this.silenceTimer = setTimeout(async () => {
+      // A question that was still being generated when the session paused is dropped
+      const deliver = (question: string) => {
+        if (!this.isPaused) this.callbacks?.onInterviewerQuestion?.(question);
+      };
+
       // Generate a follow-up question using AI
-      if (this.callbacks?.onInterviewerQuestion && this.currentTranscript.length > 10) {
+      if (this.callbacks?.onInterviewerQuestion && this.transcript.text.length > 10) {
         try {
-          const question = await this.generateAIQuestion(this.currentTranscript);
-          this.callbacks.onInterviewerQuestion(question);
+          deliver(await this.generateAIQuestion(this.transcript.text));
         } catch (e) {
           console.error('Failed to generate AI question:', e);
           // Fallback to simple questions
@@ -285,8 +525,7 @@ export class AliyunAsrService {
             "Can you tell me more about that?",
             "That's interesting! What happened next?",
           ];
-          const randomQuestion = questions[Math.floor(Math.random() * questions.length)];
-          this.callbacks.onInterviewerQuestion(randomQuestion);
+          deliver(questions[Math.floor(Math.random() * questions.length)]);
         }
       }
     }, 2000);
@@ -340,9 +579,17 @@ export class AliyunAsrService {
     }
 
     try {
-      console.log('Requesting microphone access...');
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      console.log('Microphone access granted');
+      const shared = getSpeechInputStream();
+      let stream: MediaStream;
+      if (shared) {
+        stream = shared;
+        this.ownsInputStream = false;
+      } else {
+        console.log('Requesting microphone access...');
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        this.ownsInputStream = true;
+        console.log('Microphone access granted');
+      }
 
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
         sampleRate: 16000,
@@ -353,17 +600,23 @@ export class AliyunAsrService {
       this.processor = this.audioContext.createScriptProcessor(1024, 1, 1);
 
       this.processor.onaudioprocess = (e) => {
-        // Check both WebSocket state AND isConnected flag
+        if (this.manualClose || this.isPaused) return;
+
+        const inputData = e.inputBuffer.getChannelData(0);
+        const chunk: AudioChunk = {
+          data: this.floatTo16BitPCM(inputData),
+          capturedAt: Date.now() - (inputData.length / e.inputBuffer.sampleRate) * 1000,
+        };
+
+        // Hold audio while the task is (re)starting so nothing said during a reconnect is lost
         if (!this.isConnected || !this.ws || this.ws.readyState !== WebSocket.OPEN) {
+          this.bufferAudio(chunk);
           return;
         }
 
-        const inputData = e.inputBuffer.getChannelData(0);
-        const pcmData = this.floatTo16BitPCM(inputData);
-
         // Send binary audio data
         try {
-          this.ws.send(pcmData);
+          this.sendAudio(chunk);
         } catch (err) {
           // Silent fail - connection may be closing
         }
@@ -379,6 +632,27 @@ export class AliyunAsrService {
     }
   }
 
+  private stopAudioStream() {
+    if (this.processor) {
+      this.processor.onaudioprocess = null; // Stop processing immediately
+      this.processor.disconnect();
+    }
+    if (this.mediaStreamSource) {
+      this.mediaStreamSource.disconnect();
+      if (this.ownsInputStream) {
+        try {
+          this.mediaStreamSource.mediaStream.getTracks().forEach(t => t.stop());
+        } catch (e) {}
+      }
+    }
+    if (this.audioContext) {
+      this.audioContext.close();
+    }
+    this.mediaStreamSource = null;
+    this.processor = null;
+    this.audioContext = null;
+  }
+
   private floatTo16BitPCM(float32Array: Float32Array): ArrayBuffer {
     const buffer = new ArrayBuffer(float32Array.length * 2);
     const view = new DataView(buffer);
@@ -408,30 +682,62 @@ export class AliyunAsrService {
     return result;
   }
 
+  pause() {
+    if (!this.callbacks || this.isPaused) return;
+    this.isPaused = true;
+    // Nothing said while paused makes it into the recording, so don't queue it either
+    this.pendingAudio = [];
+    this.pendingAudioBytes = 0;
+    if (this.silenceTimer) {
+      clearTimeout(this.silenceTimer);
+      this.silenceTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+      this.reconnectOnResume = true;
+    }
+  }
+
+  resume() {
+    if (!this.isPaused) return;
+    this.isPaused = false;
+    // The next chunk starts a new contiguous run of task audio
+    this.needsAnchor = true;
+    if (this.reconnectOnResume && !this.manualClose) {
+      this.reconnectOnResume = false;
+      this.reconnectAttempts = 0;
+      this.scheduleReconnect(false);
+    }
+  }
+
   disconnect() {
     // Set flag first to stop audio processing immediately
     this.isConnected = false;
+    this.manualClose = true;
+    this.connectGeneration++;
+    this.isPaused = false;
+    this.reconnectOnResume = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.pendingAudio = [];
+    this.pendingAudioBytes = 0;
 
     // Clear silence timer
     if (this.silenceTimer) {
       clearTimeout(this.silenceTimer);
       this.silenceTimer = null;
     }
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = null;
+    }
 
     // Clean up audio pipeline FIRST (before closing WebSocket)
-    if (this.processor) {
-      this.processor.onaudioprocess = null; // Stop processing immediately
-      this.processor.disconnect();
-    }
-    if (this.mediaStreamSource) {
-      this.mediaStreamSource.disconnect();
-      try {
-        this.mediaStreamSource.mediaStream.getTracks().forEach(t => t.stop());
-      } catch (e) {}
-    }
-    if (this.audioContext) {
-      this.audioContext.close();
-    }
+    this.stopAudioStream();
 
     // Then close WebSocket gracefully
     if (this.ws) {
@@ -441,7 +747,7 @@ export class AliyunAsrService {
           const stopCmd = {
             header: {
               message_id: this.generateMessageId(),
-              task_id: this.generateTaskId(),
+              task_id: this.taskId,
               namespace: 'SpeechTranscriber',
               name: 'StopTranscription',
               appkey: this.appKey,
@@ -456,10 +762,8 @@ export class AliyunAsrService {
       this.ws = null;
     }
 
-    this.mediaStreamSource = null;
-    this.processor = null;
-    this.audioContext = null;
-    this.currentTranscript = '';
+    this.transcript.clear();
+    this.setConnectionState(ConnectionState.DISCONNECTED);
   }
 }
 
@@ -0,0 +1,243 @@
+// Long-lived Web Audio mixing graph for the recording's audio track.
+//
+//   mic    ─▶ fader (GainNode) ─▶ duck ─▶ meter ─┐
+//   system ─▶ fader (GainNode) ─▶ duck ─▶ meter ─┼─▶ master ─▶ meter ─▶ MediaStreamDestination
+//
+// Ducking lowers the system channel while the presenter is talking (sidechain-style:
+// the mic level is reported from the app's audio loop via reportVoiceLevel).
+//
+// The graph is built once at init and survives across preview and recording, so levels
+// can be set (and watched) before hitting record. Meters are post-fader: they show what
+// ends up in the file.
+
+export type MixerSourceId = 'mic' | 'system';
+
+export const MIXER_SOURCES: { id: MixerSourceId; label: string }[] = [
+  { id: 'mic', label: 'Microphone' },
+  { id: 'system', label: 'System Audio' },
+];
+
+export interface MixerChannelSettings {
+  gainDb: number;
+  muted: boolean;
+}
+
+export type MixerSettings = Record<MixerSourceId, MixerChannelSettings>;
+
+export const DEFAULT_MIXER_SETTINGS: MixerSettings = {
+  mic: { gainDb: 0, muted: false },
+  system: { gainDb: -6, muted: false },
+};
+
+export interface DuckingSettings {
+  enabled: boolean;
+  depthDb: number; // how far system audio drops while the presenter speaks
+  attackMs: number;
+  releaseMs: number;
+  // Voice activity threshold on the app's mic level (average FFT magnitude, 0-255)
+  threshold: number;
+}
+
+export const DEFAULT_DUCKING_SETTINGS: DuckingSettings = {
+  enabled: false,
+  depthDb: 12,
+  attackMs: 50,
+  releaseMs: 600,
+  threshold: 12,
+};
+
+// Channels that get ducked under the voice
+const DUCKED_SOURCES: MixerSourceId[] = ['system'];
+// Keep ducking through the short gaps between words
+const VOICE_HOLD_MS = 250;
+
+export const MIN_GAIN_DB = -60;
+export const MAX_GAIN_DB = 12;
+
+export interface MeterReading {
+  peakDb: number;
+  rmsDb: number;
+  clipping: boolean; // latched for CLIP_HOLD_MS after the last over
+}
+
+// Anything this close to full scale is treated as an over
+const CLIP_THRESHOLD = 0.99;
+const CLIP_HOLD_MS = 1500;
+const SILENCE_DB = -100;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const toDb = (v: number) => (v > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(v)) : SILENCE_DB);
+
+interface Meter {
+  analyser: AnalyserNode;
+  buffer: Float32Array;
+  clipUntil: number;
+}
+
+interface Channel {
+  source: MediaStreamAudioSourceNode | null;
+  fader: GainNode;
+  duck: GainNode;
+  meter: Meter;
+}
+
+export class AudioMixer {
+  private ctx: AudioContext | null = null;
+  private channels = new Map<MixerSourceId, Channel>();
+  private master: GainNode | null = null;
+  private masterMeter: Meter | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private settings: MixerSettings = DEFAULT_MIXER_SETTINGS;
+  private ducking: DuckingSettings = DEFAULT_DUCKING_SETTINGS;
+  private isDucked = false;
+  private lastVoiceAt = 0;
+
+  private ensureGraph(): AudioContext {
+    if (this.ctx) return this.ctx;
+
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({
+      sampleRate: 48000, // Standard sample rate for video recording
+      latencyHint: 'playback' // Optimize for consistent timing over low latency
+    });
+    this.ctx = ctx;
+    this.master = ctx.createGain();
+    this.masterMeter = this.createMeter(ctx);
+    this.destination = ctx.createMediaStreamDestination();
+    this.master.connect(this.masterMeter.analyser);
+    this.masterMeter.analyser.connect(this.destination);
+
+    for (const { id } of MIXER_SOURCES) {
+      const fader = ctx.createGain();
+      const duck = ctx.createGain();
+      const meter = this.createMeter(ctx);
+      fader.connect(duck);
+      duck.connect(meter.analyser);
+      meter.analyser.connect(this.master);
+      this.channels.set(id, { source: null, fader, duck, meter });
+    }
+    this.applySettings(this.settings);
+    return ctx;
+  }
+
+  private createMeter(ctx: AudioContext): Meter {
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 2048;
+    return { analyser, buffer: new Float32Array(analyser.fftSize), clipUntil: 0 };
+  }
+
+  // Attach (or replace / detach) the stream feeding a channel. Fader settings are kept.
+  setSource(id: MixerSourceId, stream: MediaStream | null) {
+    const ctx = this.ensureGraph();
+    const channel = this.channels.get(id)!;
+
+    if (channel.source) {
+      channel.source.disconnect();
+      channel.source = null;
+    }
+    if (!stream || !stream.getAudioTracks().some(t => t.readyState === 'live')) return;
+
+    try {
+      channel.source = ctx.createMediaStreamSource(stream);
+      channel.source.connect(channel.fader);
+    } catch (e) {
+      console.warn(`Failed to add ${id} to the mix:`, e);
+    }
+  }
+
+  hasSource(id: MixerSourceId): boolean {
+    return !!this.channels.get(id)?.source;
+  }
+
+  applySettings(settings: MixerSettings) {
+    this.settings = settings;
+    if (!this.ctx) return;
+    for (const [id, channel] of this.channels) {
+      const { gainDb, muted } = settings[id];
+      // Short ramp so fader moves don't click
+      channel.fader.gain.setTargetAtTime(muted ? 0 : dbToGain(gainDb), this.ctx.currentTime, 0.015);
+    }
+  }
+
+  applyDucking(settings: DuckingSettings) {
+    this.ducking = settings;
+    if (!settings.enabled && this.isDucked) this.setDucked(false);
+  }
+
+  get ducked() {
+    return this.isDucked;
+  }
+
+  // Called with the mic level every frame; opens/closes the duck with a short hold
+  reportVoiceLevel(level: number) {
+    if (!this.ducking.enabled || !this.ctx) return;
+    const now = performance.now();
+    if (level >= this.ducking.threshold) this.lastVoiceAt = now;
+    const speaking = now - this.lastVoiceAt < VOICE_HOLD_MS;
+    if (speaking !== this.isDucked) this.setDucked(speaking);
+  }
+
+  private setDucked(ducked: boolean) {
+    this.isDucked = ducked;
+    if (!this.ctx) return;
+    const { depthDb, attackMs, releaseMs } = this.ducking;
+    // setTargetAtTime reaches ~95% after three time constants
+    const timeConstant = (ducked ? attackMs : releaseMs) / 1000 / 3;
+    const target = ducked ? dbToGain(-depthDb) : 1;
+    for (const id of DUCKED_SOURCES) {
+      const duck = this.channels.get(id)?.duck.gain;
+      if (!duck) continue;
+      duck.cancelScheduledValues(this.ctx.currentTime);
+      duck.setTargetAtTime(target, this.ctx.currentTime, Math.max(timeConstant, 0.001));
+    }
+  }
+
+  // Mixed track for MediaRecorder; null until a source has been attached
+  getOutputTrack(): MediaStreamTrack | null {
+    if (!this.destination || !MIXER_SOURCES.some(s => this.hasSource(s.id))) return null;
+    return this.destination.stream.getAudioTracks()[0] || null;
+  }
+
+  // Contexts created outside a user gesture start suspended
+  async resume() {
+    if (this.ctx?.state === 'suspended') await this.ctx.resume();
+  }
+
+  private read(meter: Meter): MeterReading {
+    meter.analyser.getFloatTimeDomainData(meter.buffer);
+    let peak = 0;
+    let sumSquares = 0;
+    for (const v of meter.buffer) {
+      const abs = Math.abs(v);
+      if (abs > peak) peak = abs;
+      sumSquares += v * v;
+    }
+    const now = performance.now();
+    if (peak >= CLIP_THRESHOLD) meter.clipUntil = now + CLIP_HOLD_MS;
+    return {
+      peakDb: toDb(peak),
+      rmsDb: toDb(Math.sqrt(sumSquares / meter.buffer.length)),
+      clipping: now < meter.clipUntil,
+    };
+  }
+
+  // Poll from requestAnimationFrame while the mixer UI is visible
+  readMeters(): { channels: Partial<Record<MixerSourceId, MeterReading>>; master: MeterReading | null } {
+    const channels: Partial<Record<MixerSourceId, MeterReading>> = {};
+    for (const [id, channel] of this.channels) {
+      if (channel.source) channels[id] = this.read(channel.meter);
+    }
+    return { channels, master: this.masterMeter ? this.read(this.masterMeter) : null };
+  }
+
+  close() {
+    this.channels.forEach(c => c.source?.disconnect());
+    this.channels.clear();
+    this.ctx?.close();
+    this.ctx = null;
+    this.master = null;
+    this.masterMeter = null;
+    this.destination = null;
+  }
+}
+
+export const audioMixer = new AudioMixer();
@@ -0,0 +1,122 @@
+import { BG_COLORS, CanvasBackground, GradientStop } from '../types';
+import { openDatabase, promisifyRequest, transactionDone } from './idb';
+
+// Canvas wallpapers: the built-in gradients plus the user's own images, solid colours and
+// gradients. Custom entries live in IndexedDB (images as Blobs), so they survive reloads and
+// never leave the machine.
+
+export const BUILT_IN_BACKGROUNDS: CanvasBackground[] = BG_COLORS.map(([from, to], i) => ({
+  id: `builtin-${i}`,
+  name: `Gradient ${i + 1}`,
+  builtIn: true,
+  kind: 'gradient',
+  gradient: 'linear',
+  angle: 135,
+  stops: [{ offset: 0, color: from }, { offset: 1, color: to }],
+}));
+
+export const DEFAULT_BACKGROUND_ID = BUILT_IN_BACKGROUNDS[0].id;
+
+// A library entry ready to draw: image entries come with their decoded bitmap and a URL for
+// thumbnails (revoked when the entry is removed)
+export interface LoadedBackground {
+  background: CanvasBackground;
+  bitmap?: ImageBitmap;
+  thumbnailUrl?: string;
+}
+
+interface StoredBackground {
+  id: string;
+  createdAt: number;
+  background: CanvasBackground;
+  image?: Blob;
+}
+
+export const createBackgroundId = () => `bg_${Date.now()}_${Math.random().toString(16).slice(2, 6)}`;
+
+// CSS for swatches and the gradient editor preview; matches how CanvasStage paints it
+export function backgroundCss(bg: CanvasBackground): string {
+  if (bg.kind === 'solid') return bg.color;
+  if (bg.kind === 'image') return '#000';
+  const stops = [...bg.stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map(s => `${s.color} ${Math.round(s.offset * 100)}%`)
+    .join(', ');
+  return bg.gradient === 'radial'
+    ? `radial-gradient(circle farthest-corner, ${stops})`
+    : `linear-gradient(${bg.angle}deg, ${stops})`;
+}
+
+// Canvas equivalent of a CSS linear-gradient angle (0deg points up, clockwise) over a box
+export function linearGradientLine(angle: number, x: number, y: number, w: number, h: number) {
+  const rad = (angle * Math.PI) / 180;
+  const dx = Math.sin(rad);
+  const dy = -Math.cos(rad);
+  const half = (Math.abs(w * dx) + Math.abs(h * dy)) / 2;
+  const cx = x + w / 2;
+  const cy = y + h / 2;
+  return { x0: cx - dx * half, y0: cy - dy * half, x1: cx + dx * half, y1: cy + dy * half };
+}
+
+export const sortStops = (stops: GradientStop[]) => [...stops].sort((a, b) => a.offset - b.offset);
+
+export class BackgroundLibrary {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private db() {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase('tuilirec-backgrounds', 1, db => {
+        db.createObjectStore('backgrounds', { keyPath: 'id' });
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async load(record: StoredBackground): Promise<LoadedBackground> {
+    if (!record.image) return { background: record.background };
+    return {
+      background: record.background,
+      bitmap: await createImageBitmap(record.image),
+      thumbnailUrl: URL.createObjectURL(record.image),
+    };
+  }
+
+  // Custom entries in the order they were added. Unreadable images are skipped, not fatal.
+  async list(): Promise<LoadedBackground[]> {
+    const tx = (await this.db()).transaction('backgrounds', 'readonly');
+    const records = await promisifyRequest<StoredBackground[]>(tx.objectStore('backgrounds').getAll());
+    records.sort((a, b) => a.createdAt - b.createdAt);
+    const loaded = await Promise.all(records.map(r => this.load(r).catch(e => {
+      console.warn(`Background "${r.background.name}" could not be loaded`, e);
+      return null;
+    })));
+    return loaded.filter((l): l is LoadedBackground => !!l);
+  }
+
+  async add(background: CanvasBackground, image?: Blob): Promise<LoadedBackground> {
+    const record: StoredBackground = { id: background.id, createdAt: Date.now(), background, image };
+    // Decode first so a broken file is rejected before it is stored
+    const loaded = await this.load(record);
+    const tx = (await this.db()).transaction('backgrounds', 'readwrite');
+    tx.objectStore('backgrounds').put(record);
+    await transactionDone(tx);
+    return loaded;
+  }
+
+  // Update an entry's settings (e.g. image fit), keeping its stored image
+  async update(background: CanvasBackground): Promise<void> {
+    const tx = (await this.db()).transaction('backgrounds', 'readwrite');
+    const store = tx.objectStore('backgrounds');
+    const record = await promisifyRequest<StoredBackground | undefined>(store.get(background.id));
+    if (record) store.put({ ...record, background });
+    await transactionDone(tx);
+  }
+
+  async remove(id: string): Promise<void> {
+    const tx = (await this.db()).transaction('backgrounds', 'readwrite');
+    tx.objectStore('backgrounds').delete(id);
+    await transactionDone(tx);
+  }
+}
+
+export const backgroundLibrary = new BackgroundLibrary();
@@ -0,0 +1,120 @@
+import { ImageSegmenter } from '@mediapipe/tasks-vision';
+import wasmLoaderPath from '@mediapipe/tasks-vision/vision_wasm_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision/vision_wasm_internal.wasm?url';
+
+// On-device person segmentation for the camera (MediaPipe selfie segmenter on the WASM CPU
+// backend). The runtime ships with the bundle and the model is served from our own origin
+// (`npm run fetch-models` puts it in public/models), so no frame ever leaves the machine.
+//
+// process() returns the presenter cut out on a transparent canvas; CanvasStage draws the
+// replacement background (blur, wallpaper, image) underneath it.
+
+export const SEGMENTATION_MODEL_PATH = '/models/selfie_segmenter.tflite';
+
+// The model works at 256x256 internally; segmenting a downscaled frame is much cheaper and
+// the upscaled mask doubles as edge feathering
+const INPUT_LONG_EDGE = 512;
+// Mask values below/above these become fully transparent/opaque
+const MASK_LOW = 0.3;
+const MASK_HIGH = 0.7;
+
+export class BackgroundSegmenter {
+  private segmenter: ImageSegmenter | null = null;
+  private loading: Promise<void> | null = null;
+  private input = document.createElement('canvas');
+  private mask = document.createElement('canvas');
+  private person = document.createElement('canvas');
+  private maskData: ImageData | null = null;
+  private lastVideoTime = -1;
+  private lastTimestamp = 0;
+  private hasOutput = false;
+
+  get isReady(): boolean {
+    return !!this.segmenter;
+  }
+
+  // Safe to call repeatedly; rejects if the runtime or model can't be loaded
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = ImageSegmenter.createFromOptions({ wasmLoaderPath, wasmBinaryPath }, {
+        baseOptions: { modelAssetPath: SEGMENTATION_MODEL_PATH, delegate: 'CPU' },
+        runningMode: 'VIDEO',
+        outputConfidenceMasks: true,
+        outputCategoryMask: false,
+      }).then(segmenter => {
+        this.segmenter = segmenter;
+        console.log('✅ Background segmenter ready');
+      }).catch(e => {
+        this.loading = null; // allow a retry once the model is in place
+        throw e;
+      });
+    }
+    return this.loading;
+  }
+
+  // Cut the presenter out of the current camera frame. Frames are only segmented when the
+  // video has advanced, so calling this from a 60fps render loop is fine.
+  process(video: HTMLVideoElement): HTMLCanvasElement | null {
+    if (!this.segmenter || video.readyState < 2 || !video.videoWidth) return null;
+    if (video.currentTime === this.lastVideoTime && this.hasOutput) return this.person;
+    this.lastVideoTime = video.currentTime;
+
+    const vw = video.videoWidth;
+    const vh = video.videoHeight;
+    const scale = Math.min(1, INPUT_LONG_EDGE / Math.max(vw, vh));
+    const iw = Math.round(vw * scale);
+    const ih = Math.round(vh * scale);
+    if (this.input.width !== iw || this.input.height !== ih) {
+      this.input.width = this.mask.width = iw;
+      this.input.height = this.mask.height = ih;
+      this.maskData = new ImageData(iw, ih);
+    }
+    this.input.getContext('2d')!.drawImage(video, 0, 0, iw, ih);
+
+    // Timestamps must strictly increase
+    const timestamp = Math.max(performance.now(), this.lastTimestamp + 1);
+    this.lastTimestamp = timestamp;
+
+    try {
+      this.segmenter.segmentForVideo(this.input, timestamp, result => {
+        const confidence = result.confidenceMasks?.[0];
+        if (!confidence) return;
+        const values = confidence.getAsFloat32Array();
+        const pixels = this.maskData!.data;
+        for (let i = 0; i < values.length; i++) {
+          const a = (values[i] - MASK_LOW) / (MASK_HIGH - MASK_LOW);
+          pixels[i * 4 + 3] = a <= 0 ? 0 : a >= 1 ? 255 : a * 255;
+        }
+        this.mask.getContext('2d')!.putImageData(this.maskData!, 0, 0);
+      });
+    } catch (e) {
+      console.warn('Segmentation failed for this frame', e);
+      return this.hasOutput ? this.person : null;
+    }
+
+    // Full-resolution frame, keeping only the pixels under the (smoothly upscaled) mask
+    if (this.person.width !== vw || this.person.height !== vh) {
+      this.person.width = vw;
+      this.person.height = vh;
+    }
+    const ctx = this.person.getContext('2d')!;
+    ctx.globalCompositeOperation = 'copy';
+    ctx.drawImage(video, 0, 0, vw, vh);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(this.mask, 0, 0, vw, vh);
+    ctx.globalCompositeOperation = 'source-over';
+    this.hasOutput = true;
+    return this.person;
+  }
+
+  close() {
+    this.segmenter?.close();
+    this.segmenter = null;
+    this.loading = null;
+    this.hasOutput = false;
+    this.lastVideoTime = -1;
+  }
+}
+
+export const backgroundSegmenter = new BackgroundSegmenter();
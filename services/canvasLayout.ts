@@ -0,0 +1,195 @@
+import { CamShape, CanvasState } from '../types';
+
+// Geometry for the camera layouts. CanvasStage draws whatever rects this returns and eases
+// between them, so switching layout (or scene) animates without per-layout drawing code.
+// Full-cam mode is separate: it crossfades over whichever layout is active.
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface LayoutFrame {
+  screen: Rect;
+  screenRadius: number;
+  cam: Rect;
+  camRadius: number;
+  camShape: CamShape;
+  // PIP layouts overlay the camera on the screen; split layouts give each its own pane
+  split: boolean;
+}
+
+// Camera share of the canvas in split layouts
+export const MIN_SPLIT = 0.2;
+export const MAX_SPLIT = 0.8;
+
+// PIP size limits, as fractions of the shorter canvas side
+export const MIN_CAM_SIZE = 0.08;
+export const MAX_CAM_SIZE = 0.8;
+
+// Safe margin kept around the PIP by snapping and scenes (fraction of the shorter side)
+export const SAFE_MARGIN = 0.04;
+// Snap when within this distance of a target (fraction of the shorter side)
+const SNAP_DISTANCE = 0.02;
+
+export type ResizeCorner = 'nw' | 'ne' | 'sw' | 'se';
+
+const PANE_RADIUS = 30;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// PIP box; camSize is the longer edge, so the box always fits the camSize square
+export function camBoxSize(state: CanvasState): { w: number; h: number } {
+  if (state.camLayout !== 'pip-rect') return { w: state.camSize, h: state.camSize };
+  const aspect = state.pipAspect;
+  return aspect >= 1
+    ? { w: state.camSize, h: state.camSize / aspect }
+    : { w: state.camSize * aspect, h: state.camSize };
+}
+
+// Outer margin and gap between panes in split layouts
+function splitSpacing(state: CanvasState) {
+  const pad = state.usePadding ? Math.min(state.width, state.height) * 0.06 : 0;
+  return { pad, gap: pad / 2 };
+}
+
+// Corner radius per bubble shape (the squircle's is only used for the ring and hit-testing)
+function bubbleRadius(shape: CamShape, size: number): number {
+  if (shape === 'rounded') return size * 0.2;
+  if (shape === 'squircle') return size * 0.3;
+  return size / 2;
+}
+
+export function computeLayout(state: CanvasState): LayoutFrame {
+  const { width: W, height: H } = state;
+
+  if (state.camLayout === 'side-by-side' || state.camLayout === 'stacked') {
+    const { pad, gap } = splitSpacing(state);
+    const radius = state.usePadding ? PANE_RADIUS : 0;
+    const split = clamp(state.splitRatio, MIN_SPLIT, MAX_SPLIT);
+
+    if (state.camLayout === 'stacked') {
+      // Camera on top, screen below: the vertical shorts layout
+      const inner = H - pad * 2 - gap;
+      const camH = inner * split;
+      return {
+        cam: { x: pad, y: pad, w: W - pad * 2, h: camH },
+        screen: { x: pad, y: pad + camH + gap, w: W - pad * 2, h: inner - camH },
+        camRadius: radius,
+        camShape: 'rounded',
+        screenRadius: radius,
+        split: true,
+      };
+    }
+
+    const inner = W - pad * 2 - gap;
+    const camW = inner * split;
+    const camFirst = state.camSide === 'left';
+    const camX = camFirst ? pad : W - pad - camW;
+    const screenX = camFirst ? pad + camW + gap : pad;
+    return {
+      cam: { x: camX, y: pad, w: camW, h: H - pad * 2 },
+      screen: { x: screenX, y: pad, w: inner - camW, h: H - pad * 2 },
+      camRadius: radius,
+      camShape: 'rounded',
+      screenRadius: radius,
+      split: true,
+    };
+  }
+
+  // PIP layouts: screen fills the (padded) canvas, camera floats on top
+  const padding = state.usePadding ? H * 0.08 : 0;
+  const { w, h } = camBoxSize(state);
+  return {
+    screen: { x: padding, y: padding, w: W - padding * 2, h: H - padding * 2 },
+    screenRadius: state.usePadding ? PANE_RADIUS : 0,
+    cam: { x: state.camX, y: state.camY, w, h },
+    camRadius: state.camLayout === 'pip-rect' ? Math.min(w, h) * 0.12 : bubbleRadius(state.camShape, w),
+    camShape: state.camLayout === 'pip-rect' ? 'rounded' : state.camShape,
+    split: false,
+  };
+}
+
+// Grab area of the divider between the panes, or null for PIP layouts
+export function dividerRect(state: CanvasState): Rect | null {
+  const frame = computeLayout(state);
+  if (!frame.split) return null;
+  const { gap } = splitSpacing(state);
+  const grab = Math.max(gap, Math.min(state.width, state.height) * 0.02);
+
+  if (state.camLayout === 'stacked') {
+    const y = frame.cam.y + frame.cam.h + gap / 2;
+    return { x: frame.cam.x, y: y - grab / 2, w: frame.cam.w, h: grab };
+  }
+  const x = state.camSide === 'left'
+    ? frame.cam.x + frame.cam.w + gap / 2
+    : frame.cam.x - gap / 2;
+  return { x: x - grab / 2, y: frame.cam.y, w: grab, h: frame.cam.h };
+}
+
+// Split ratio that puts the divider under the given canvas point
+export function splitRatioAt(state: CanvasState, x: number, y: number): number {
+  const { pad, gap } = splitSpacing(state);
+  if (state.camLayout === 'stacked') {
+    const inner = state.height - pad * 2 - gap;
+    return clamp((y - pad - gap / 2) / inner, MIN_SPLIT, MAX_SPLIT);
+  }
+  const inner = state.width - pad * 2 - gap;
+  const camW = state.camSide === 'left'
+    ? x - pad - gap / 2
+    : state.width - pad - x - gap / 2;
+  return clamp(camW / inner, MIN_SPLIT, MAX_SPLIT);
+}
+
+export function clampCamSize(state: CanvasState, size: number): number {
+  const short = Math.min(state.width, state.height);
+  return clamp(size, short * MIN_CAM_SIZE, short * MAX_CAM_SIZE);
+}
+
+// Resize from a corner handle, keeping the opposite corner in place
+export function resizeFromCorner(state: CanvasState, corner: ResizeCorner, dx: number, dy: number) {
+  const before = camBoxSize(state);
+  // Project the pointer movement on the handle's diagonal
+  const sx = corner === 'ne' || corner === 'se' ? 1 : -1;
+  const sy = corner === 'sw' || corner === 'se' ? 1 : -1;
+  const camSize = clampCamSize(state, state.camSize + (dx * sx + dy * sy) / 2);
+  const after = camBoxSize({ ...state, camSize });
+  return {
+    camSize,
+    camX: sx < 0 ? state.camX + before.w - after.w : state.camX,
+    camY: sy < 0 ? state.camY + before.h - after.h : state.camY,
+  };
+}
+
+// Scroll-to-resize: scale around the bubble's centre
+export function resizeAroundCenter(state: CanvasState, factor: number) {
+  const before = camBoxSize(state);
+  const camSize = clampCamSize(state, state.camSize * factor);
+  const after = camBoxSize({ ...state, camSize });
+  return {
+    camSize,
+    camX: state.camX + (before.w - after.w) / 2,
+    camY: state.camY + (before.h - after.h) / 2,
+  };
+}
+
+// Pull a dragged bubble onto the canvas edges, the safe margins or the centre lines
+export function snapCamPosition(state: CanvasState, x: number, y: number): { x: number; y: number } {
+  const { w, h } = camBoxSize(state);
+  const short = Math.min(state.width, state.height);
+  const margin = short * SAFE_MARGIN;
+  const threshold = short * SNAP_DISTANCE;
+  const snap = (v: number, targets: number[]) => {
+    const nearest = targets.reduce((best, t) => Math.abs(t - v) < Math.abs(best - v) ? t : best, targets[0]);
+    return Math.abs(nearest - v) <= threshold ? nearest : v;
+  };
+  return {
+    x: snap(x, [0, margin, (state.width - w) / 2, state.width - w - margin, state.width - w]),
+    y: snap(y, [0, margin, (state.height - h) / 2, state.height - h - margin, state.height - h]),
+  };
+}
+
+export const pointInRect = (r: Rect, x: number, y: number) =>
+  x >= r.x && x <= r.x + r.w && y >= r.y && y <= r.y + r.h;
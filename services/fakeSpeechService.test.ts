@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiFeature, SpeechProviderId } from '../types';
+import { FakeSpeechService } from './fakeSpeechService';
+import { getSpeechProvider, registerSpeechProvider, SpeechCallbacks, SpeechProvider } from './speechProvider';
+import { TranscriptStore } from './transcriptStore';
+
+const recorder = () => {
+  const store = new TranscriptStore();
+  const questions: string[] = [];
+  const callbacks = {
+    onTranscriptResult: vi.fn((result) => { store.apply(result); }),
+    onInterviewerQuestion: vi.fn((text: string) => { questions.push(text); }),
+    onOpen: vi.fn(),
+    onError: vi.fn(),
+  } satisfies SpeechCallbacks;
+  return { store, questions, callbacks };
+};
+
+describe('FakeSpeechService', () => {
+  let fake: FakeSpeechService;
+  let provider: SpeechProvider;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fake = new FakeSpeechService();
+    registerSpeechProvider(fake);
+    provider = getSpeechProvider(SpeechProviderId.FAKE)!;
+  });
+
+  afterEach(() => {
+    provider.disconnect();
+    vi.useRealTimers();
+  });
+
+  it('registers as an always available provider for both features', () => {
+    expect(provider).toBe(fake);
+    expect(provider.isAvailable()).toBe(true);
+    expect(provider.supportedFeatures).toEqual([AiFeature.TELEPROMPTER, AiFeature.INTERVIEWER]);
+  });
+
+  it('speaks the script a few words per tick with final, timed results', async () => {
+    const { store, callbacks } = recorder();
+    await provider.connect(AiFeature.TELEPROMPTER, 'Hello there, this is a test.', callbacks);
+    expect(callbacks.onOpen).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(fake.tickMs);
+    expect(callbacks.onTranscriptResult).toHaveBeenCalledOnce();
+    const [first] = callbacks.onTranscriptResult.mock.calls[0];
+    expect(first).toMatchObject({ text: 'Hello there,', isFinal: true, estimated: true });
+    expect(first.endedAt - first.startedAt).toBe(fake.tickMs);
+
+    vi.advanceTimersByTime(fake.tickMs * 10);
+    expect(store.text).toBe('Hello there, this is a test.');
+    expect(new Set(store.getSentences().map(s => s.id)).size).toBe(3);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  it('falls back to canned phrases without a script', async () => {
+    const { store, callbacks } = recorder();
+    await provider.connect(AiFeature.TELEPROMPTER, '  ', callbacks);
+    vi.advanceTimersByTime(fake.tickMs);
+    expect(store.text).toBe('This is');
+  });
+
+  it('stays quiet while paused and carries on after resume', async () => {
+    const { store, callbacks } = recorder();
+    await provider.connect(AiFeature.TELEPROMPTER, 'one two three four', callbacks);
+    vi.advanceTimersByTime(fake.tickMs);
+    provider.pause();
+    vi.advanceTimersByTime(fake.tickMs * 5);
+    expect(store.text).toBe('one two');
+
+    provider.resume();
+    vi.advanceTimersByTime(fake.tickMs);
+    expect(store.text).toBe('one two three four');
+  });
+
+  it('asks a question once an interviewer answer is done', async () => {
+    const { questions, callbacks } = recorder();
+    await provider.connect(AiFeature.INTERVIEWER, 'I grew up by the sea.', callbacks);
+    vi.advanceTimersByTime(fake.tickMs * 10);
+    expect(questions).toEqual(['Can you tell me more about that?']);
+  });
+
+  it('stops reporting after disconnect', async () => {
+    const { callbacks } = recorder();
+    await provider.connect(AiFeature.TELEPROMPTER, 'one two three four', callbacks);
+    provider.disconnect();
+    vi.advanceTimersByTime(fake.tickMs * 5);
+    fake.emitTranscript('too late');
+    expect(callbacks.onTranscriptResult).not.toHaveBeenCalled();
+  });
+
+  it('emits utterances on demand, revising a partial under the same sentence id', async () => {
+    const { store, callbacks } = recorder();
+    await provider.connect(AiFeature.TELEPROMPTER, 'unused', callbacks);
+    vi.clearAllTimers(); // only what the test emits
+
+    fake.emitTranscript('hello wor', false, 'take-1');
+    fake.emitTranscript('hello world', true, 'take-1');
+    fake.emitTranscript('second sentence');
+    expect(store.getSentences()).toEqual([
+      { id: 'take-1', text: 'hello world', isFinal: true },
+      expect.objectContaining({ text: 'second sentence', isFinal: true }),
+    ]);
+    expect(store.text).toBe('hello world second sentence');
+  });
+});
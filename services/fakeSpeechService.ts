@@ -0,0 +1,114 @@
+import { AiFeature, SpeechProviderId } from '../types';
+import { SpeechCallbacks, SpeechProvider } from './speechProvider';
+
+const FALLBACK_PHRASES = [
+  "This is a simulated transcript.",
+  "The fake provider needs no network or credentials.",
+  "Use it to exercise the teleprompter and interviewer flows locally.",
+];
+
+// Local, offline provider that "speaks" the script (or canned phrases) on a timer.
+// Handy for UI work and tests where no real ASR backend is reachable.
+export class FakeSpeechService implements SpeechProvider {
+  readonly id = SpeechProviderId.FAKE;
+  readonly label = 'Local Fake (testing)';
+  readonly supportedFeatures = [AiFeature.TELEPROMPTER, AiFeature.INTERVIEWER];
+
+  // Words emitted per tick and tick interval, tweakable from tests
+  wordsPerTick = 2;
+  tickMs = 400;
+
+  private callbacks: SpeechCallbacks | null = null;
+  private currentFeature: AiFeature = AiFeature.NONE;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private words: string[] = [];
+  private cursor = 0;
+  private sentence = 0;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async connect(
+    feature: AiFeature,
+    scriptContext: string,
+    callbacks: SpeechCallbacks
+  ) {
+    this.disconnect();
+    this.currentFeature = feature;
+    this.callbacks = callbacks;
+
+    const source = scriptContext.trim() || FALLBACK_PHRASES.join(' ');
+    // Same split as the teleprompter tokenizer: latin words or single CJK chars
+    this.words = source.match(/[a-zA-Z0-9']+[.!?,]?|[\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af][。！？，]?/g) || [];
+    this.cursor = 0;
+
+    callbacks.onOpen();
+    this.timer = setInterval(() => this.tick(), this.tickMs);
+  }
+
+  // Push an arbitrary utterance through the callbacks (for tests); pass the id of an earlier
+  // partial to revise it
+  emitTranscript(text: string, isFinal = true, sentenceId = `fake-${this.sentence++}`) {
+    const now = Date.now();
+    this.callbacks?.onTranscriptResult({
+      sentenceId,
+      text,
+      isFinal,
+      startedAt: now,
+      endedAt: now,
+      estimated: true,
+    });
+  }
+
+  private tick() {
+    if (!this.callbacks) return;
+
+    if (this.cursor >= this.words.length) {
+      if (this.currentFeature === AiFeature.INTERVIEWER) {
+        this.callbacks.onInterviewerQuestion?.("Can you tell me more about that?");
+      }
+      this.stopTimer();
+      return;
+    }
+
+    const chunk = this.words.slice(this.cursor, this.cursor + this.wordsPerTick);
+    this.cursor += chunk.length;
+    const text = chunk.join(' ');
+    const now = Date.now();
+    this.callbacks.onTranscriptResult({
+      sentenceId: `fake-${this.sentence++}`,
+      text,
+      isFinal: true,
+      startedAt: now - this.tickMs,
+      endedAt: now,
+      estimated: true,
+    });
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  pause() {
+    this.stopTimer();
+  }
+
+  resume() {
+    if (this.callbacks && !this.timer && this.cursor < this.words.length) {
+      this.timer = setInterval(() => this.tick(), this.tickMs);
+    }
+  }
+
+  disconnect() {
+    this.stopTimer();
+    this.callbacks = null;
+    this.words = [];
+    this.cursor = 0;
+  }
+}
+
+export const fakeSpeech = new FakeSpeechService();
@@ -1,26 +1,37 @@
 import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
 import { createPcmBlob, PCM_SAMPLE_RATE } from './audioUtils';
-import { AiFeature } from '../types';
+import { AiFeature, SpeechProviderId } from '../types';
+import { getSpeechInputStream, SpeechCallbacks, SpeechProvider } from './speechProvider';
 
-interface LiveSessionCallbacks {
-  onInterviewerQuestion: (text: string) => void;
-  onTranscriptUpdate: (text: string) => void;
-  onOpen: () => void;
-  onError: (e: Error) => void;
-}
+// Upper bound on how long a single input-transcription delta is assumed to span
+const MAX_ESTIMATED_DELTA_MS = 3000;
+
+export class GeminiLiveService implements SpeechProvider {
+  readonly id = SpeechProviderId.GEMINI_LIVE;
+  readonly label = 'Gemini Live';
+  readonly supportedFeatures = [AiFeature.TELEPROMPTER, AiFeature.INTERVIEWER];
 
-export class GeminiLiveService {
   private ai: GoogleGenAI;
   private sessionPromise: Promise<any> | null = null;
   private audioContext: AudioContext | null = null;
   private mediaStreamSource: MediaStreamAudioSourceNode | null = null;
   private processor: ScriptProcessorNode | null = null;
+  // Only streams we opened ourselves get stopped on disconnect
+  private ownsInputStream = false;
+  private callbacks: SpeechCallbacks | null = null;
   private currentFeature: AiFeature = AiFeature.NONE;
   private isConnected = false;
   
   // State for text accumulation
   private currentResponseText = "";
   private responseFinished = true;
+  private lastInputTranscriptionAt = 0;
+  // Input transcription arrives as deltas; they are collected into one sentence per utterance
+  private inputSentence = 0;
+  private inputText = "";
+  private inputStartedAt = 0;
+  // While paused no audio is streamed; the live session itself stays open
+  private isPaused = false;
 
   constructor() {
     // Only initialize if API key is available
@@ -30,16 +41,28 @@ export class GeminiLiveService {
     }
   }
 
+  isAvailable(): boolean {
+    return !!this.ai;
+  }
+
   async connect(
     feature: AiFeature, 
     scriptContext: string, // For teleprompter context or interviewer context
-    callbacks: LiveSessionCallbacks
+    callbacks: SpeechCallbacks
   ) {
     this.disconnect();
+    if (!this.ai) {
+      callbacks.onError(new Error('GEMINI_API_KEY not configured'));
+      return;
+    }
     this.currentFeature = feature;
+    this.callbacks = callbacks;
     this.currentResponseText = "";
     this.responseFinished = true;
     this.isConnected = false;
+    this.isPaused = false;
+    this.lastInputTranscriptionAt = 0;
+    this.inputText = "";
 
     let systemInstruction = "";
     if (feature === AiFeature.INTERVIEWER) {
@@ -86,10 +109,31 @@ export class GeminiLiveService {
         onmessage: (message: LiveServerMessage) => {
           // Handle Input Transcription (User Speech) - Critical for Teleprompter
           if (message.serverContent?.inputTranscription) {
-            const text = message.serverContent.inputTranscription.text;
+            const { text, finished } = message.serverContent.inputTranscription;
             if (text) {
-               callbacks.onTranscriptUpdate(text);
+               const now = Date.now();
+               // A long silence starts a new utterance
+               if (this.inputText && now - this.lastInputTranscriptionAt > MAX_ESTIMATED_DELTA_MS) {
+                   this.commitInputSentence();
+               }
+
+               // Deltas come without timings; assume the utterance began right after the
+               // previous delta (capped for long silences)
+               if (!this.inputText) {
+                   this.inputStartedAt = Math.max(this.lastInputTranscriptionAt, now - MAX_ESTIMATED_DELTA_MS);
+               }
+               this.inputText += text;
+               this.lastInputTranscriptionAt = now;
+               callbacks.onTranscriptResult({
+                 sentenceId: `${this.inputSentence}`,
+                 text: this.inputText,
+                 isFinal: false,
+                 startedAt: this.inputStartedAt,
+                 endedAt: now,
+                 estimated: true,
+               });
             }
+            if (finished) this.commitInputSentence();
           }
 
           // Handle Model Response (Interviewer Question)
@@ -102,13 +146,20 @@ export class GeminiLiveService {
                        this.responseFinished = false;
                    }
                    this.currentResponseText += text;
-                   callbacks.onInterviewerQuestion(this.currentResponseText);
+                   // Nothing is shown while paused; the text keeps collecting and goes out with
+                   // the turn's next delta after resume (a turn that ends during the pause never does)
+                   if (!this.isPaused) callbacks.onInterviewerQuestion?.(this.currentResponseText);
                 }
              }
              
              if (message.serverContent?.turnComplete) {
                 this.responseFinished = true;
              }
+          }
+
+          // The model answering means the user's utterance is over
+          if (message.serverContent?.turnComplete) {
+             this.commitInputSentence();
              if (message.serverContent?.interrupted) {
                 this.responseFinished = true;
              }
@@ -133,7 +184,9 @@ export class GeminiLiveService {
     if (!this.isConnected) return;
     
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const shared = getSpeechInputStream();
+      const stream = shared || await navigator.mediaDevices.getUserMedia({ audio: true });
+      this.ownsInputStream = !shared;
       
       // OPTIMIZATION: 'interactive' latencyHint
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
@@ -148,7 +201,7 @@ export class GeminiLiveService {
 
       this.processor.onaudioprocess = (e) => {
         // Critical check: Ensure we don't try to send if session is gone/closed
-        if (!this.isConnected) return;
+        if (!this.isConnected || this.isPaused) return;
         
         const inputData = e.inputBuffer.getChannelData(0);
         const pcmBlob = createPcmBlob(inputData);
@@ -173,8 +226,38 @@ export class GeminiLiveService {
     }
   }
 
+  // Finalize the utterance collected so far
+  private commitInputSentence() {
+    if (!this.inputText) return;
+    this.callbacks?.onTranscriptResult({
+      sentenceId: `${this.inputSentence}`,
+      text: this.inputText,
+      isFinal: true,
+      startedAt: this.inputStartedAt,
+      endedAt: this.lastInputTranscriptionAt,
+      estimated: true,
+    });
+    this.inputSentence++;
+    this.inputText = "";
+  }
+
+  pause() {
+    this.isPaused = true;
+    this.commitInputSentence();
+  }
+
+  resume() {
+    if (!this.isPaused) return;
+    this.isPaused = false;
+    // Don't let the first delta after a pause claim the paused span as speech
+    this.lastInputTranscriptionAt = Date.now();
+  }
+
   disconnect() {
+    this.commitInputSentence();
+    this.callbacks = null;
     this.isConnected = false;
+    this.isPaused = false;
     
     // Clean up Audio Pipeline first
     if (this.processor) {
@@ -183,9 +266,11 @@ export class GeminiLiveService {
     }
     if (this.mediaStreamSource) {
       this.mediaStreamSource.disconnect();
-      try {
-        this.mediaStreamSource.mediaStream.getTracks().forEach(t => t.stop());
-      } catch (e) {}
+      if (this.ownsInputStream) {
+        try {
+          this.mediaStreamSource.mediaStream.getTracks().forEach(t => t.stop());
+        } catch (e) {}
+      }
     }
     if (this.audioContext) {
       this.audioContext.close();
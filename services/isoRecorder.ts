@@ -0,0 +1,140 @@
+import { pickSupportedFormat, ResolvedOutputFormat } from './outputProfiles';
+import { recordingStore } from './recordingStore';
+
+// Isolated ("ISO") source recordings made alongside the composited canvas: the raw mic,
+// the system audio and the camera at its native resolution, each in its own file, so
+// editors can re-balance levels and re-frame the camera in post. All recorders are
+// started, paused and stopped together with the main recorder to stay in sync.
+
+export type IsoTrackKind = 'mic' | 'system' | 'camera';
+
+export interface IsoTrackSource {
+  kind: IsoTrackKind;
+  stream: MediaStream;
+}
+
+export interface IsoTrackFile {
+  kind: IsoTrackKind;
+  blob: Blob;
+  extension: string;
+}
+
+const AUDIO_FORMATS = ['audio/webm;codecs=opus', 'audio/mp4;codecs=mp4a.40.2', 'audio/ogg;codecs=opus'];
+const CAMERA_FORMATS = ['video/webm;codecs=vp9', 'video/mp4;codecs=avc1', 'video/webm;codecs=vp8'];
+
+// Higher than the composite: the camera ISO is meant for re-framing in post
+const CAMERA_VIDEO_BITRATE = 12_000_000;
+const ISO_AUDIO_BITRATE = 192_000;
+
+interface ActiveTrack {
+  kind: IsoTrackKind;
+  recorder: MediaRecorder;
+  format: ResolvedOutputFormat;
+  sessionId: string | null;
+  chunks: Blob[];
+  stopped: Promise<void>;
+}
+
+export class IsoRecorder {
+  private tracks: ActiveTrack[] = [];
+  private stopPromise: Promise<IsoTrackFile[]> | null = null;
+
+  get isActive() {
+    return this.tracks.length > 0;
+  }
+
+  async start(sources: IsoTrackSource[]) {
+    this.tracks = [];
+    this.stopPromise = null;
+
+    for (const { kind, stream } of sources) {
+      const isVideo = kind === 'camera';
+      // Only the relevant tracks: the camera ISO is picture only, the mic has its own file
+      const tracks = isVideo ? stream.getVideoTracks() : stream.getAudioTracks();
+      const live = tracks.filter(t => t.readyState === 'live');
+      if (live.length === 0) continue;
+
+      const format = isVideo
+        ? pickSupportedFormat(CAMERA_FORMATS, ['video/webm', 'video/mp4'])
+        : pickSupportedFormat(AUDIO_FORMATS, ['audio/webm', 'audio/mp4']);
+
+      let recorder: MediaRecorder;
+      try {
+        recorder = new MediaRecorder(new MediaStream(live), {
+          mimeType: format.mimeType,
+          ...(isVideo ? { videoBitsPerSecond: CAMERA_VIDEO_BITRATE } : { audioBitsPerSecond: ISO_AUDIO_BITRATE }),
+        });
+      } catch (e) {
+        console.warn(`Skipping ${kind} ISO track, recorder could not be created:`, e);
+        continue;
+      }
+
+      let sessionId: string | null = null;
+      try {
+        sessionId = await recordingStore.start(format.mimeType, format.extension, kind);
+      } catch (e) {
+        console.warn(`ISO ${kind} persistence unavailable, buffering in memory:`, e);
+      }
+
+      const track: ActiveTrack = {
+        kind,
+        recorder,
+        format,
+        sessionId,
+        chunks: [],
+        stopped: new Promise(resolve => recorder.addEventListener('stop', () => resolve(), { once: true })),
+      };
+      recorder.ondataavailable = (e) => {
+        if (e.data.size === 0) return;
+        if (track.sessionId) {
+          recordingStore.append(track.sessionId, e.data);
+        } else {
+          track.chunks.push(e.data);
+        }
+      };
+      this.tracks.push(track);
+    }
+
+    // Start everything back to back so the files line up with the composite
+    this.tracks.forEach(t => t.recorder.start(1000));
+    console.log(`Recording ISO tracks: ${this.tracks.map(t => t.kind).join(', ') || 'none'}`);
+  }
+
+  pause() {
+    this.tracks.forEach(t => {
+      if (t.recorder.state === 'recording') t.recorder.pause();
+    });
+  }
+
+  resume() {
+    this.tracks.forEach(t => {
+      if (t.recorder.state === 'paused') t.recorder.resume();
+    });
+  }
+
+  // Safe to call more than once; every caller gets the same files
+  stop(): Promise<IsoTrackFile[]> {
+    if (!this.stopPromise) {
+      const tracks = this.tracks;
+      this.tracks = [];
+      tracks.forEach(t => {
+        if (t.recorder.state !== 'inactive') t.recorder.stop();
+      });
+      this.stopPromise = Promise.all(tracks.map(async (t): Promise<IsoTrackFile | null> => {
+        await t.stopped;
+        try {
+          const blob = t.sessionId
+            ? await recordingStore.finish(t.sessionId)
+            : new Blob(t.chunks, { type: t.format.mimeType });
+          return { kind: t.kind, blob, extension: t.format.extension };
+        } catch (e) {
+          console.error(`Failed to assemble ${t.kind} ISO track`, e);
+          return null;
+        }
+      })).then(files => files.filter((f): f is IsoTrackFile => f !== null));
+    }
+    return this.stopPromise;
+  }
+}
+
+export const isoRecorder = new IsoRecorder();
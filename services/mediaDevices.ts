@@ -0,0 +1,87 @@
+import { MicProcessingSettings, micConstraints } from './micProcessor';
+
+// Camera / microphone selection on top of enumerateDevices(). Device ids are stable per
+// origin, so the last choice can be restored on the next visit; if that device is gone
+// we quietly fall back to the browser default.
+
+export type CameraResolution = '720p' | '1080p' | '4k';
+
+export const CAMERA_RESOLUTIONS: { id: CameraResolution; label: string; width: number; height: number }[] = [
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: '4k', label: '4K', width: 3840, height: 2160 },
+];
+
+export interface DeviceSelection {
+  cameraId: string | null; // null = browser default
+  micId: string | null;
+  cameraResolution: CameraResolution;
+}
+
+export const DEFAULT_DEVICE_SELECTION: DeviceSelection = {
+  cameraId: null,
+  micId: null,
+  cameraResolution: '1080p',
+};
+
+export interface DeviceLists {
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+}
+
+// Labels are empty until the user has granted camera/mic permission once
+export async function listDevices(): Promise<DeviceLists> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    cameras: devices.filter(d => d.kind === 'videoinput'),
+    microphones: devices.filter(d => d.kind === 'audioinput'),
+  };
+}
+
+export function cameraConstraints(selection: DeviceSelection): MediaTrackConstraints {
+  const res = CAMERA_RESOLUTIONS.find(r => r.id === selection.cameraResolution) || CAMERA_RESOLUTIONS[1];
+  return {
+    ...(selection.cameraId ? { deviceId: { exact: selection.cameraId } } : {}),
+    width: { ideal: res.width },
+    height: { ideal: res.height },
+  };
+}
+
+export function microphoneConstraints(selection: DeviceSelection, processing: MicProcessingSettings): MediaTrackConstraints {
+  return {
+    ...(selection.micId ? { deviceId: { exact: selection.micId } } : {}),
+    ...micConstraints(processing),
+  };
+}
+
+const isMissingDevice = (e: any) => e?.name === 'NotFoundError' || e?.name === 'OverconstrainedError';
+
+// Camera + mic in one stream (the camera stream carries the mic, as it always has).
+// A remembered device that has been unplugged falls back to the default one.
+export async function openCameraStream(selection: DeviceSelection, processing: MicProcessingSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: cameraConstraints(selection),
+      audio: microphoneConstraints(selection, processing),
+    });
+  } catch (e) {
+    if (!isMissingDevice(e) || (!selection.cameraId && !selection.micId)) throw e;
+    console.warn('Selected camera/microphone unavailable, falling back to defaults', e);
+    const fallback = { ...selection, cameraId: null, micId: null };
+    return navigator.mediaDevices.getUserMedia({
+      video: cameraConstraints(fallback),
+      audio: microphoneConstraints(fallback, processing),
+    });
+  }
+}
+
+export function openScreenStream(): Promise<MediaStream> {
+  return navigator.mediaDevices.getDisplayMedia({
+    video: { width: { ideal: 3840 }, height: { ideal: 2160 }, frameRate: 60 },
+    audio: true
+  });
+}
+
+export function stopStream(stream: MediaStream | null) {
+  stream?.getTracks().forEach(t => t.stop());
+}
@@ -0,0 +1,200 @@
+// Processing chain for the presenter's microphone:
+//
+//   mic ─▶ high-pass ─▶ noise gate ─▶ compressor ─▶ limiter ─▶ clipper ─▶ output stream
+//
+// The output is a regular MediaStream that feeds both the recording mix and the ASR
+// providers, so cleaner audio also means better transcripts. With processing disabled
+// the mic is routed straight to the output and consumers don't need to reconnect.
+
+export interface MicProcessingSettings {
+  enabled: boolean;
+  // Browser-side (getUserMedia) processing, applied to the capture track itself
+  noiseSuppression: boolean;
+  echoCancellation: boolean;
+  autoGainControl: boolean;
+  highPassHz: number;
+  gateThresholdDb: number;
+  compressorThresholdDb: number;
+  compressorRatio: number;
+  limiterCeilingDb: number;
+}
+
+export const DEFAULT_MIC_PROCESSING: MicProcessingSettings = {
+  enabled: false,
+  // Same as the browser defaults for `audio: true`
+  noiseSuppression: true,
+  echoCancellation: true,
+  autoGainControl: true,
+  highPassHz: 80,
+  gateThresholdDb: -50,
+  compressorThresholdDb: -24,
+  compressorRatio: 4,
+  limiterCeilingDb: -1,
+};
+
+// Gate timing: open fast, stay open between words, close gently
+const GATE_ATTACK_MS = 5;
+const GATE_HOLD_MS = 200;
+const GATE_RELEASE_MS = 150;
+// Closed gate attenuates instead of muting outright, which sounds less choppy
+const GATE_FLOOR_DB = -40;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Constraints for getUserMedia / applyConstraints on the mic track
+export function micConstraints(settings: MicProcessingSettings): MediaTrackConstraints {
+  return {
+    noiseSuppression: settings.noiseSuppression,
+    echoCancellation: settings.echoCancellation,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+// Update browser-side processing on a live capture track (not every browser honours every flag)
+export async function applyMicTrackConstraints(track: MediaStreamTrack, settings: MicProcessingSettings) {
+  try {
+    await track.applyConstraints(micConstraints(settings));
+  } catch (e) {
+    console.warn('Mic constraints not applied:', e);
+  }
+}
+
+export class MicProcessor {
+  private ctx: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private highpass: BiquadFilterNode | null = null;
+  private gate: ScriptProcessorNode | null = null;
+  private compressor: DynamicsCompressorNode | null = null;
+  private limiter: DynamicsCompressorNode | null = null;
+  private clipper: WaveShaperNode | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private settings: MicProcessingSettings = DEFAULT_MIC_PROCESSING;
+
+  // Gate state, updated on the audio callback
+  private gateGain = 1;
+  private gateOpenUntil = 0;
+
+  get outputStream(): MediaStream | null {
+    return this.destination?.stream || null;
+  }
+
+  private ensureGraph(): AudioContext {
+    if (this.ctx) return this.ctx;
+
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({
+      sampleRate: 48000,
+      latencyHint: 'interactive'
+    });
+    this.ctx = ctx;
+
+    this.highpass = ctx.createBiquadFilter();
+    this.highpass.type = 'highpass';
+    this.highpass.Q.value = 0.707;
+
+    // No native gate node; a ScriptProcessor keeps running in background tabs unlike timers
+    this.gate = ctx.createScriptProcessor(1024, 1, 1);
+    this.gate.onaudioprocess = (e) => this.processGate(e);
+
+    this.compressor = ctx.createDynamicsCompressor();
+    this.compressor.knee.value = 6;
+    this.compressor.attack.value = 0.005;
+    this.compressor.release.value = 0.15;
+
+    // Limiter: hard-knee, max-ratio compressor followed by a clipper as the final safety net
+    this.limiter = ctx.createDynamicsCompressor();
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.05;
+    this.clipper = ctx.createWaveShaper();
+
+    this.destination = ctx.createMediaStreamDestination();
+
+    this.highpass.connect(this.gate);
+    this.gate.connect(this.compressor);
+    this.compressor.connect(this.limiter);
+    this.limiter.connect(this.clipper);
+    this.clipper.connect(this.destination);
+
+    this.applySettings(this.settings);
+    return ctx;
+  }
+
+  private processGate(e: AudioProcessingEvent) {
+    const input = e.inputBuffer.getChannelData(0);
+    const output = e.outputBuffer.getChannelData(0);
+    const sampleRate = e.inputBuffer.sampleRate;
+
+    let sumSquares = 0;
+    for (let i = 0; i < input.length; i++) sumSquares += input[i] * input[i];
+    const rms = Math.sqrt(sumSquares / input.length);
+
+    const now = e.playbackTime * 1000;
+    if (rms >= dbToGain(this.settings.gateThresholdDb)) {
+      this.gateOpenUntil = now + GATE_HOLD_MS;
+    }
+    const target = now < this.gateOpenUntil ? 1 : dbToGain(GATE_FLOOR_DB);
+    const attack = 1 - Math.exp(-1000 / (GATE_ATTACK_MS * sampleRate));
+    const release = 1 - Math.exp(-1000 / (GATE_RELEASE_MS * sampleRate));
+
+    let gain = this.gateGain;
+    for (let i = 0; i < input.length; i++) {
+      gain += (target - gain) * (target > gain ? attack : release);
+      output[i] = input[i] * gain;
+    }
+    this.gateGain = gain;
+  }
+
+  // Route the mic into the chain; returns the processed stream (stable across calls)
+  attach(stream: MediaStream): MediaStream {
+    this.ensureGraph();
+    if (this.source) this.source.disconnect();
+    this.source = this.ctx!.createMediaStreamSource(stream);
+    this.route();
+    this.ctx!.resume().catch(() => {});
+    return this.destination!.stream;
+  }
+
+  private route() {
+    if (!this.source) return;
+    this.source.disconnect();
+    this.source.connect(this.settings.enabled ? this.highpass! : this.destination!);
+  }
+
+  applySettings(settings: MicProcessingSettings) {
+    const wasEnabled = this.settings.enabled;
+    this.settings = settings;
+    if (!this.ctx) return;
+
+    this.highpass!.frequency.value = settings.highPassHz;
+    this.compressor!.threshold.value = settings.compressorThresholdDb;
+    this.compressor!.ratio.value = settings.compressorRatio;
+    this.limiter!.threshold.value = settings.limiterCeilingDb;
+
+    const ceiling = dbToGain(settings.limiterCeilingDb);
+    const curve = new Float32Array(1025);
+    for (let i = 0; i < curve.length; i++) {
+      const x = (i / (curve.length - 1)) * 2 - 1;
+      curve[i] = Math.max(-ceiling, Math.min(ceiling, x));
+    }
+    this.clipper!.curve = curve;
+
+    if (wasEnabled !== settings.enabled) this.route();
+  }
+
+  close() {
+    if (this.gate) this.gate.onaudioprocess = null;
+    this.source?.disconnect();
+    this.ctx?.close();
+    this.ctx = null;
+    this.source = null;
+    this.highpass = null;
+    this.gate = null;
+    this.compressor = null;
+    this.limiter = null;
+    this.clipper = null;
+    this.destination = null;
+  }
+}
+
+export const micProcessor = new MicProcessor();
@@ -0,0 +1,127 @@
+// Named recording presets: canvas resolution, frame rate, bitrates and the codecs to try.
+// Browsers differ wildly in what MediaRecorder can encode (Safari: H.264/mp4 only,
+// Firefox: VP8/VP9 webm only, Chrome: most of both), so every profile lists candidates
+// in order of preference and the first supported one wins.
+
+export interface OutputProfile {
+  id: string;
+  label: string;
+  longEdge: number; // canvas size along the longer side; the other side follows the aspect ratio
+  fps: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+  mimeTypes: string[];
+}
+
+export const OUTPUT_PROFILES: OutputProfile[] = [
+  {
+    // What the recorder always did before profiles existed
+    id: '1440p30-auto',
+    label: '1440p30 (auto codec)',
+    longEdge: 2560,
+    fps: 30,
+    videoBitsPerSecond: 8_000_000,
+    audioBitsPerSecond: 128_000,
+    mimeTypes: ['video/mp4', 'video/webm'],
+  },
+  {
+    id: '1080p30-h264',
+    label: '1080p30 H.264',
+    longEdge: 1920,
+    fps: 30,
+    videoBitsPerSecond: 8_000_000,
+    audioBitsPerSecond: 128_000,
+    mimeTypes: [
+      'video/mp4;codecs="avc1.640028,mp4a.40.2"',
+      'video/mp4;codecs=avc1',
+      'video/webm;codecs=h264,opus',
+      'video/x-matroska;codecs=avc1,opus',
+    ],
+  },
+  {
+    id: '4k60-vp9',
+    label: '4K60 VP9',
+    longEdge: 3840,
+    fps: 60,
+    videoBitsPerSecond: 40_000_000,
+    audioBitsPerSecond: 192_000,
+    mimeTypes: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp09.00.41.08,opus', 'video/mp4;codecs=vp09.00.41.08'],
+  },
+  {
+    id: '720p-small',
+    label: '720p small',
+    longEdge: 1280,
+    fps: 30,
+    videoBitsPerSecond: 2_500_000,
+    audioBitsPerSecond: 96_000,
+    mimeTypes: ['video/webm;codecs=vp8,opus', 'video/mp4;codecs=avc1', 'video/webm', 'video/mp4'],
+  },
+];
+
+export const DEFAULT_OUTPUT_PROFILE_ID = OUTPUT_PROFILES[0].id;
+
+// Everything we know how to ask for, used by the capability probe in Settings
+const CODEC_CANDIDATES = [
+  'video/mp4;codecs="avc1.640028,mp4a.40.2"',
+  'video/mp4;codecs=avc1',
+  'video/mp4;codecs=hvc1',
+  'video/mp4;codecs=av01',
+  'video/mp4;codecs=vp09.00.41.08',
+  'video/webm;codecs=h264,opus',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm;codecs=av01,opus',
+  'video/x-matroska;codecs=avc1,opus',
+];
+
+const isTypeSupported = (mimeType: string) =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType);
+
+export function getOutputProfile(id: string): OutputProfile {
+  return OUTPUT_PROFILES.find(p => p.id === id) || OUTPUT_PROFILES[0];
+}
+
+// Codec strings this browser's MediaRecorder accepts
+export function probeSupportedCodecs(): string[] {
+  return CODEC_CANDIDATES.filter(isTypeSupported);
+}
+
+export function isProfileSupported(profile: OutputProfile): boolean {
+  return profile.mimeTypes.some(isTypeSupported);
+}
+
+export interface ResolvedOutputFormat {
+  mimeType: string;
+  extension: string;
+  // True when none of the profile's codecs were available and we fell back to the browser default
+  isFallback: boolean;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/x-matroska': 'mkv',
+  'audio/mp4': 'm4a',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+};
+
+// First supported candidate, else the plain fallback container
+export function pickSupportedFormat(candidates: string[], fallbacks: string[]): ResolvedOutputFormat {
+  const preferred = candidates.find(isTypeSupported);
+  const mimeType = preferred || fallbacks.find(isTypeSupported) || fallbacks[fallbacks.length - 1];
+  const extension = EXTENSIONS[mimeType.split(';')[0]] || 'webm';
+  return { mimeType, extension, isFallback: !preferred };
+}
+
+export function resolveOutputFormat(profile: OutputProfile): ResolvedOutputFormat {
+  return pickSupportedFormat(profile.mimeTypes, ['video/mp4', 'video/webm']);
+}
+
+// Canvas size for a profile at the given aspect ratio (long edge fixed, even dimensions for encoders)
+export function canvasSizeFor(profile: OutputProfile, aspectRatio: number) {
+  const even = (n: number) => Math.round(n / 2) * 2;
+  return aspectRatio < 1
+    ? { width: even(profile.longEdge * aspectRatio), height: profile.longEdge }
+    : { width: profile.longEdge, height: even(profile.longEdge / aspectRatio) };
+}
@@ -0,0 +1,135 @@
+import { isCJK } from './textTokens';
+
+// Timed scrolling for the teleprompter. Speed is set in words per minute for latin text and
+// characters per minute for CJK, so mixed scripts scroll evenly. Voice tracking, when there is
+// any, teaches the pacer the speaker's real pace and pulls it back in line:
+// - 'voice':  ASR drives the prompter; the pacer only takes over while ASR is lost
+// - 'timer':  constant speed, no speech recognition needed (works offline)
+// - 'hybrid': the timer drives and voice matches correct its drift
+
+export type PrompterMode = 'voice' | 'timer' | 'hybrid';
+
+export interface PacingSettings {
+  mode: PrompterMode;
+  wordsPerMinute: number;
+  charsPerMinute: number;
+}
+
+export const DEFAULT_PACING_SETTINGS: PacingSettings = {
+  mode: 'voice',
+  wordsPerMinute: 150,
+  charsPerMinute: 240,
+};
+
+export const WPM_RANGE = { min: 60, max: 300, step: 10 };
+export const CPM_RANGE = { min: 100, max: 500, step: 20 };
+
+// In hybrid mode the timer may run this many tokens ahead of the last thing heard...
+const MAX_LEAD = 4;
+// ...as long as it was heard this recently (after that the speaker is assumed to be pausing)
+const VOICE_FRESH_MS = 4000;
+// Pace is learned from this much recent voice progress
+const PACE_WINDOW_MS = 20000;
+const MIN_PACE_SAMPLE_MS = 4000;
+// A voice jump this large is a re-sync, not reading speed
+const MAX_PACE_JUMP = 30;
+const PACE_LIMITS = { min: 0.5, max: 2 };
+
+export class ScrollPacer {
+  private durations: number[] = [];
+  private position = 0; // fractional tokens
+  private paceFactor = 1; // >1: the speaker reads faster than the configured speed
+  private samples: { time: number; position: number }[] = [];
+  private lastVoiceAt = 0;
+  private lastVoicePosition = 0;
+  // Script pause cues: token position -> ms to hold there
+  private pauses: Map<number, number>;
+  private pausedAt = -1;
+  private pauseLeft = 0;
+
+  constructor(private tokens: string[], settings: PacingSettings, pauses: { position: number; ms: number }[] = []) {
+    this.setSpeed(settings);
+    this.pauses = new Map(pauses.map(p => [p.position, p.ms]));
+  }
+
+  setSpeed(settings: PacingSettings) {
+    const wordMs = 60000 / settings.wordsPerMinute;
+    const charMs = 60000 / settings.charsPerMinute;
+    this.durations = this.tokens.map(t => (isCJK(t) ? charMs : wordMs));
+  }
+
+  // Whole tokens read
+  get currentPosition(): number {
+    return Math.floor(this.position);
+  }
+
+  get pace(): number {
+    return this.paceFactor;
+  }
+
+  seek(position: number) {
+    this.position = Math.max(0, Math.min(position, this.tokens.length));
+    this.samples = [];
+    this.lastVoiceAt = 0;
+    this.pausedAt = -1;
+  }
+
+  // Move on by the time elapsed since the last call; returns whole tokens read
+  advance(elapsedMs: number, now = Date.now()): number {
+    const limit = now - this.lastVoiceAt < VOICE_FRESH_MS
+      ? Math.min(this.tokens.length, this.lastVoicePosition + MAX_LEAD)
+      : this.tokens.length;
+
+    let remaining = elapsedMs * this.paceFactor;
+    while (remaining > 0 && this.position < limit) {
+      // Hold on a pause cue before reading on
+      if (this.pauses.has(this.position) && this.pausedAt !== this.position) {
+        this.pausedAt = this.position;
+        this.pauseLeft = this.pauses.get(this.position)! * this.paceFactor;
+      }
+      if (this.pausedAt === this.position && this.pauseLeft > 0) {
+        const wait = Math.min(remaining, this.pauseLeft);
+        this.pauseLeft -= wait;
+        remaining -= wait;
+        continue;
+      }
+
+      const index = Math.floor(this.position);
+      const duration = this.durations[index];
+      const left = (index + 1 - this.position) * duration;
+      if (remaining >= left) {
+        this.position = index + 1;
+        remaining -= left;
+      } else {
+        this.position += remaining / duration;
+        remaining = 0;
+      }
+    }
+    return this.currentPosition;
+  }
+
+  // A position from voice tracking: learn the pace from it and correct the timer. A timer that
+  // fell behind catches up; one that ran too far ahead is pulled back.
+  hear(position: number, now = Date.now()) {
+    if (Math.abs(position - this.lastVoicePosition) > MAX_PACE_JUMP) this.samples = [];
+    this.lastVoiceAt = now;
+    this.lastVoicePosition = position;
+
+    this.samples.push({ time: now, position });
+    while (this.samples.length > 2 && now - this.samples[0].time > PACE_WINDOW_MS) this.samples.shift();
+    const first = this.samples[0];
+    const elapsed = now - first.time;
+    if (elapsed >= MIN_PACE_SAMPLE_MS && position > first.position) {
+      let expected = 0;
+      for (let i = first.position; i < position; i++) expected += this.durations[i] ?? 0;
+      const measured = Math.min(PACE_LIMITS.max, Math.max(PACE_LIMITS.min, expected / elapsed));
+      this.paceFactor = this.paceFactor * 0.7 + measured * 0.3;
+    }
+
+    if (position > this.position || this.position - position > MAX_LEAD) this.position = position;
+  }
+}
+
+// Whether a script reads in characters (CJK) rather than words, for showing/adjusting speed
+export const isMostlyCJK = (tokens: string[]) =>
+  tokens.filter(t => isCJK(t)).length > tokens.length / 2;
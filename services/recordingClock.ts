@@ -0,0 +1,41 @@
+// Maps wall-clock time onto the recorded media timeline. MediaRecorder drops paused
+// spans from the output, so everything time-stamped against the recording (transcript,
+// chapter markers) has to skip them too.
+export class RecordingClock {
+  private startedAt = 0;
+  private pausedAt: number | null = null;
+  // Completed pauses as [start, end] wall-clock pairs
+  private pauses: [number, number][] = [];
+
+  start(at: number) {
+    this.startedAt = at;
+    this.pausedAt = null;
+    this.pauses = [];
+  }
+
+  pause(at: number) {
+    if (this.pausedAt === null) this.pausedAt = at;
+  }
+
+  resume(at: number) {
+    if (this.pausedAt === null) return;
+    this.pauses.push([this.pausedAt, at]);
+    this.pausedAt = null;
+  }
+
+  get startTime() {
+    return this.startedAt;
+  }
+
+  // Wall-clock epoch ms -> ms on the recording timeline. Moments inside a pause
+  // collapse onto the point where recording was paused.
+  toTimeline(at: number): number {
+    let paused = 0;
+    const spans = this.pausedAt !== null ? [...this.pauses, [this.pausedAt, Infinity] as [number, number]] : this.pauses;
+    for (const [start, end] of spans) {
+      if (at <= start) break;
+      paused += Math.min(at, end) - start;
+    }
+    return Math.max(0, at - this.startedAt - paused);
+  }
+}
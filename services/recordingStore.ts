@@ -0,0 +1,259 @@
+import { openDatabase, promisifyRequest, transactionDone } from './idb';
+
+// Crash-safe storage for MediaRecorder chunks. Every chunk is written to disk as it
+// arrives (OPFS where the browser supports writable file handles, IndexedDB otherwise),
+// so a tab crash or reload only loses the last timeslice, and the final video is a
+// disk-backed Blob instead of an ever-growing in-memory array.
+
+export interface RecordingSessionMeta {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  mimeType: string;
+  extension: string;
+  chunkCount: number;
+  bytes: number;
+  // Isolated source ('mic', 'system', 'camera') for ISO tracks; absent for the main composite
+  track?: string;
+  // 'recording' sessions found at launch were interrupted and can be recovered
+  status: 'recording' | 'complete';
+}
+
+interface ChunkBackend {
+  readonly name: string;
+  putMeta(meta: RecordingSessionMeta): Promise<void>;
+  listMeta(): Promise<RecordingSessionMeta[]>;
+  putChunk(sessionId: string, index: number, data: Blob): Promise<void>;
+  readBlob(meta: RecordingSessionMeta): Promise<Blob>;
+  remove(sessionId: string): Promise<void>;
+}
+
+class IndexedDbBackend implements ChunkBackend {
+  readonly name = 'IndexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private db() {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase('tuilirec-recordings', 1, db => {
+        db.createObjectStore('sessions', { keyPath: 'id' });
+        db.createObjectStore('chunks', { keyPath: ['sessionId', 'index'] });
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async putMeta(meta: RecordingSessionMeta) {
+    const tx = (await this.db()).transaction('sessions', 'readwrite');
+    tx.objectStore('sessions').put(meta);
+    await transactionDone(tx);
+  }
+
+  async listMeta() {
+    const tx = (await this.db()).transaction('sessions', 'readonly');
+    return promisifyRequest<RecordingSessionMeta[]>(tx.objectStore('sessions').getAll());
+  }
+
+  async putChunk(sessionId: string, index: number, data: Blob) {
+    const tx = (await this.db()).transaction('chunks', 'readwrite');
+    tx.objectStore('chunks').put({ sessionId, index, data });
+    await transactionDone(tx);
+  }
+
+  async readBlob(meta: RecordingSessionMeta) {
+    const tx = (await this.db()).transaction('chunks', 'readonly');
+    // Compound keys sort by index within a session
+    const range = IDBKeyRange.bound([meta.id, 0], [meta.id, Infinity]);
+    const rows = await promisifyRequest<{ data: Blob }[]>(tx.objectStore('chunks').getAll(range));
+    return new Blob(rows.map(r => r.data), { type: meta.mimeType });
+  }
+
+  async remove(sessionId: string) {
+    const tx = (await this.db()).transaction(['sessions', 'chunks'], 'readwrite');
+    tx.objectStore('sessions').delete(sessionId);
+    tx.objectStore('chunks').delete(IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]));
+    await transactionDone(tx);
+  }
+}
+
+// Origin Private File System: one directory per session, one file per chunk.
+// Each chunk gets its own file because createWritable() only commits on close().
+class OpfsBackend implements ChunkBackend {
+  readonly name = 'OPFS';
+  private rootPromise: Promise<FileSystemDirectoryHandle> | null = null;
+
+  static isSupported() {
+    return typeof navigator !== 'undefined'
+      && !!navigator.storage?.getDirectory
+      && typeof FileSystemFileHandle !== 'undefined'
+      && 'createWritable' in FileSystemFileHandle.prototype;
+  }
+
+  private root() {
+    if (!this.rootPromise) {
+      this.rootPromise = navigator.storage.getDirectory()
+        .then(dir => dir.getDirectoryHandle('recordings', { create: true }));
+    }
+    return this.rootPromise;
+  }
+
+  private async sessionDir(sessionId: string) {
+    return (await this.root()).getDirectoryHandle(sessionId, { create: true });
+  }
+
+  private async writeFile(dir: FileSystemDirectoryHandle, name: string, data: Blob | string) {
+    const handle = await dir.getFileHandle(name, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(data);
+    await writable.close();
+  }
+
+  // Async iteration over directory handles isn't in the DOM lib we compile against
+  private async entryNames(dir: FileSystemDirectoryHandle): Promise<string[]> {
+    const names: string[] = [];
+    for await (const name of (dir as any).keys()) names.push(name);
+    return names;
+  }
+
+  async putMeta(meta: RecordingSessionMeta) {
+    await this.writeFile(await this.sessionDir(meta.id), 'meta.json', JSON.stringify(meta));
+  }
+
+  async listMeta() {
+    const root = await this.root();
+    const metas: RecordingSessionMeta[] = [];
+    for (const name of await this.entryNames(root)) {
+      try {
+        const dir = await root.getDirectoryHandle(name);
+        const file = await (await dir.getFileHandle('meta.json')).getFile();
+        metas.push(JSON.parse(await file.text()));
+      } catch (e) {
+        console.warn(`Skipping unreadable recording session ${name}`, e);
+      }
+    }
+    return metas;
+  }
+
+  async putChunk(sessionId: string, index: number, data: Blob) {
+    await this.writeFile(await this.sessionDir(sessionId), `${String(index).padStart(6, '0')}.chunk`, data);
+  }
+
+  async readBlob(meta: RecordingSessionMeta) {
+    const dir = await this.sessionDir(meta.id);
+    // Don't trust meta.chunkCount: a crash can land between a chunk write and the meta update
+    const names = (await this.entryNames(dir)).filter(n => n.endsWith('.chunk')).sort();
+    const files = await Promise.all(names.map(async n => (await dir.getFileHandle(n)).getFile()));
+    return new Blob(files, { type: meta.mimeType });
+  }
+
+  async remove(sessionId: string) {
+    await (await this.root()).removeEntry(sessionId, { recursive: true });
+  }
+}
+
+export class RecordingStore {
+  private backend: ChunkBackend = OpfsBackend.isSupported() ? new OpfsBackend() : new IndexedDbBackend();
+  private sessions = new Map<string, RecordingSessionMeta>();
+  // Writes for a session are chained so chunks land in order
+  private writeQueues = new Map<string, Promise<void>>();
+  // Chunks that could not be persisted (only after a write failure)
+  private memorySpill = new Map<string, Blob[]>();
+
+  get backendName() {
+    return this.backend.name;
+  }
+
+  async start(mimeType: string, extension: string, track?: string): Promise<string> {
+    // Ask the browser not to evict our data under storage pressure (best effort)
+    navigator.storage?.persist?.().catch(() => {});
+
+    const now = Date.now();
+    const meta: RecordingSessionMeta = {
+      id: `rec_${now}_${Math.random().toString(16).slice(2, 8)}`,
+      startedAt: now,
+      updatedAt: now,
+      mimeType,
+      extension,
+      chunkCount: 0,
+      bytes: 0,
+      track,
+      status: 'recording',
+    };
+    await this.backend.putMeta(meta);
+    this.sessions.set(meta.id, meta);
+    this.writeQueues.set(meta.id, Promise.resolve());
+    console.log(`Recording session ${meta.id} persisted via ${this.backend.name}`);
+    return meta.id;
+  }
+
+  append(sessionId: string, data: Blob): Promise<void> {
+    const meta = this.sessions.get(sessionId);
+    if (!meta) return Promise.reject(new Error(`Unknown recording session ${sessionId}`));
+
+    const index = meta.chunkCount++;
+    const write = (this.writeQueues.get(sessionId) || Promise.resolve()).then(async () => {
+      const spill = this.memorySpill.get(sessionId);
+      if (spill) {
+        spill.push(data);
+        return;
+      }
+      try {
+        await this.backend.putChunk(sessionId, index, data);
+      } catch (e) {
+        // Quota exceeded or storage gone: keep this and every later chunk in memory.
+        // Writes are serialized, so disk chunks + spill stay in recording order.
+        console.warn(`Chunk persistence failed for ${sessionId}, keeping the rest in memory`, e);
+        this.memorySpill.set(sessionId, [data]);
+        return;
+      }
+      meta.bytes += data.size;
+      meta.updatedAt = Date.now();
+      // Meta is informational only (chunks are listed from storage), so a failed update is harmless
+      await this.backend.putMeta(meta).catch(e => console.warn('Failed to update session meta', e));
+    });
+    this.writeQueues.set(sessionId, write);
+    return write;
+  }
+
+  // Waits for pending writes, marks the session complete and returns the assembled video
+  async finish(sessionId: string): Promise<Blob> {
+    const meta = this.sessions.get(sessionId);
+    if (!meta) throw new Error(`Unknown recording session ${sessionId}`);
+
+    await this.writeQueues.get(sessionId);
+    const spill = this.memorySpill.get(sessionId) || [];
+    this.sessions.delete(sessionId);
+    this.writeQueues.delete(sessionId);
+    this.memorySpill.delete(sessionId);
+
+    const stored = await this.backend.readBlob(meta);
+    meta.status = 'complete';
+    meta.updatedAt = Date.now();
+    await this.backend.putMeta(meta).catch(e => console.warn('Failed to mark session complete', e));
+    return spill.length > 0 ? new Blob([stored, ...spill], { type: meta.mimeType }) : stored;
+  }
+
+  // Sessions left in 'recording' state by a crashed or reloaded tab
+  async listOrphaned(): Promise<RecordingSessionMeta[]> {
+    const all = await this.backend.listMeta();
+    return all
+      .filter(m => m.status === 'recording' && !this.sessions.has(m.id))
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async rebuild(meta: RecordingSessionMeta): Promise<Blob> {
+    return this.backend.readBlob(meta);
+  }
+
+  async discard(sessionId: string) {
+    await this.backend.remove(sessionId);
+  }
+
+  // Completed sessions are kept until the next launch so their (disk-backed) Blob stays
+  // readable while the browser finishes the download
+  async purgeCompleted() {
+    const all = await this.backend.listMeta();
+    await Promise.all(all.filter(m => m.status === 'complete').map(m => this.backend.remove(m.id)));
+  }
+}
+
+export const recordingStore = new RecordingStore();
@@ -0,0 +1,114 @@
+import { CamLayout, CanvasState, Scene, SceneLayout } from '../types';
+import { camBoxSize, SAFE_MARGIN } from './canvasLayout';
+import { BUILT_IN_BACKGROUNDS, DEFAULT_BACKGROUND_ID } from './backgroundLibrary';
+
+// Named layouts that can be switched live (number keys 1-9 or the dock). Switching only
+// swaps the target CanvasState; CanvasStage eases towards it, so scene changes animate
+// the same way zoom and pan already do.
+
+// Built-in PIP positions use 1/1 and rely on clamping to land in the bottom-right corner,
+// on the safe margin, whatever the aspect ratio
+const PIP_DEFAULTS = {
+  camX: 1,
+  camY: 1,
+  camSize: 0.24,
+  camLayout: 'pip' as CamLayout,
+  pipAspect: 16 / 9,
+  splitRatio: 0.4,
+  camSide: 'left' as const,
+  usePadding: true,
+  backgroundId: DEFAULT_BACKGROUND_ID,
+  zoom: 1,
+  panX: 0,
+  panY: 0,
+};
+
+export const BUILT_IN_SCENES: Scene[] = [
+  {
+    id: 'screen-pip-br',
+    name: 'Screen + PIP',
+    builtIn: true,
+    layout: { ...PIP_DEFAULTS, isFullCam: false, camEnabled: true },
+  },
+  {
+    id: 'side-by-side',
+    name: 'Side by Side',
+    builtIn: true,
+    layout: { ...PIP_DEFAULTS, isFullCam: false, camEnabled: true, camLayout: 'side-by-side', splitRatio: 0.4 },
+  },
+  {
+    id: 'stacked',
+    name: 'Stacked (9:16)',
+    builtIn: true,
+    layout: { ...PIP_DEFAULTS, isFullCam: false, camEnabled: true, camLayout: 'stacked', splitRatio: 0.4 },
+  },
+  {
+    id: 'full-cam',
+    name: 'Full Cam',
+    builtIn: true,
+    layout: { ...PIP_DEFAULTS, isFullCam: true, camEnabled: true },
+  },
+  {
+    id: 'screen-only',
+    name: 'Screen Only',
+    builtIn: true,
+    layout: { ...PIP_DEFAULTS, isFullCam: false, camEnabled: false },
+  },
+];
+
+export function captureLayout(state: CanvasState): SceneLayout {
+  const { width: W, height: H } = state;
+  return {
+    isFullCam: state.isFullCam,
+    camEnabled: state.camEnabled,
+    camX: state.camX / W,
+    camY: state.camY / H,
+    camSize: state.camSize / Math.min(W, H),
+    camLayout: state.camLayout,
+    pipAspect: state.pipAspect,
+    splitRatio: state.splitRatio,
+    camSide: state.camSide,
+    usePadding: state.usePadding,
+    backgroundId: state.backgroundId,
+    zoom: state.zoom,
+    panX: state.panX / W,
+    panY: state.panY / H,
+  };
+}
+
+export function applyLayout(state: CanvasState, layout: SceneLayout): CanvasState {
+  const { width: W, height: H } = state;
+  const margin = SAFE_MARGIN * Math.min(W, H);
+  // Scenes saved before camera layouts existed are plain circle PIPs
+  const next: CanvasState = {
+    ...state,
+    camSize: layout.camSize * Math.min(W, H),
+    camLayout: layout.camLayout ?? 'pip',
+    pipAspect: layout.pipAspect ?? state.pipAspect,
+    splitRatio: layout.splitRatio ?? state.splitRatio,
+    camSide: layout.camSide ?? state.camSide,
+  };
+  const box = camBoxSize(next);
+  const clamp = (v: number, max: number, size: number) => Math.max(margin, Math.min(v, max - size - margin));
+  return {
+    ...next,
+    isFullCam: layout.isFullCam,
+    camEnabled: layout.camEnabled,
+    camX: clamp(layout.camX * W, W, box.w),
+    camY: clamp(layout.camY * H, H, box.h),
+    usePadding: layout.usePadding,
+    backgroundId: layout.backgroundId ?? BUILT_IN_BACKGROUNDS[layout.bgIndex ?? 0]?.id ?? DEFAULT_BACKGROUND_ID,
+    zoom: layout.zoom,
+    panX: layout.panX * W,
+    panY: layout.panY * H,
+  };
+}
+
+export function createScene(name: string, state: CanvasState): Scene {
+  return {
+    id: `scene_${Date.now()}_${Math.random().toString(16).slice(2, 6)}`,
+    name,
+    builtIn: false,
+    layout: captureLayout(state),
+  };
+}
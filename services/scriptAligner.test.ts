@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeText, phoneticKey, ScriptAligner, tokenSimilarity } from './scriptAligner';
+import { parseSegmentToTokens } from './textTokens';
+
+const texts = (text: string) => normalizeText(text).map(t => t.text);
+const token = (text: string) => normalizeText(text)[0];
+
+const SCRIPT = [
+  'Welcome back to the channel.',
+  'Today we are looking at the new camera from the studio down the road.',
+  'It records in four k and the battery lasts for about two hours.',
+  'The menus are simple and the autofocus is quick in low light.',
+  'Finally we will talk about the price and whether it is worth it.',
+].join(' ');
+
+const scriptTokens = parseSegmentToTokens(SCRIPT);
+// Source position just after the given phrase
+const after = (phrase: string) => {
+  const words = parseSegmentToTokens(phrase);
+  for (let i = 0; i + words.length <= scriptTokens.length; i++) {
+    if (words.every((w, k) => scriptTokens[i + k] === w)) return i + words.length;
+  }
+  throw new Error(`"${phrase}" is not in the script`);
+};
+
+describe('normalizeText', () => {
+  it('folds English number words into digits', () => {
+    expect(texts('twenty twenty four')).toEqual(['2024']);
+    expect(texts('two thousand twenty four')).toEqual(['2024']);
+    expect(texts('nineteen ninety nine')).toEqual(['1999']);
+    expect(texts('one hundred and five apples')).toEqual(['105', 'apples']);
+  });
+
+  it('drops thousands separators and ordinal suffixes', () => {
+    expect(texts('2,024')).toEqual(['2024']);
+    expect(texts('the 21st century')).toEqual(['the', '21', 'century']);
+  });
+
+  it('folds Chinese numerals with and without units', () => {
+    expect(texts('两千零二十四')).toEqual(['2024']);
+    expect(texts('二零二四')).toEqual(['2024']);
+    expect(texts('三万五千')).toEqual(['35000']);
+  });
+
+  it('keeps the source token range a number spans', () => {
+    const [number, word] = normalizeText('one hundred and five apples');
+    expect(number).toMatchObject({ start: 0, end: 4 });
+    expect(word).toMatchObject({ text: 'apples', start: 4, end: 5 });
+  });
+});
+
+describe('phoneticKey', () => {
+  it('gives English homophones the same key', () => {
+    expect(phoneticKey('right')).toBe('rt');
+    expect(phoneticKey('write')).toBe('rt');
+    expect(phoneticKey('their')).toBe(phoneticKey('there'));
+    expect(phoneticKey('four')).toBe(phoneticKey('for'));
+    expect(phoneticKey('knight')).toBe(phoneticKey('night'));
+  });
+
+  it('uses tone-less pinyin with common accent confusions merged', () => {
+    expect(phoneticKey('诗')).toBe(phoneticKey('思'));
+    expect(phoneticKey('你')).toBe(phoneticKey('里'));
+    expect(phoneticKey('民')).toBe(phoneticKey('明'));
+  });
+
+  it('leaves digits alone', () => {
+    expect(phoneticKey('2024')).toBe('2024');
+  });
+});
+
+describe('tokenSimilarity', () => {
+  it('scores the same word as 1', () => {
+    expect(tokenSimilarity(token('camera'), token('Camera'))).toBe(1);
+    expect(tokenSimilarity(token('2024'), token('twenty twenty four'))).toBe(1);
+  });
+
+  it('scores homophones high, but one-consonant keys low', () => {
+    expect(tokenSimilarity(token('right'), token('write'))).toBeCloseTo(0.85);
+    expect(tokenSimilarity(token('诗'), token('思'))).toBeCloseTo(0.85);
+    expect(tokenSimilarity(token('to'), token('tea'))).toBeCloseTo(0.55);
+  });
+
+  it('accepts small spelling slips in longer words only', () => {
+    const sim = tokenSimilarity(token('teleprompter'), token('teleprompters'));
+    expect(sim).toBeGreaterThan(0.8);
+    expect(sim).toBeLessThan(1);
+    expect(tokenSimilarity(token('cat'), token('cap'))).toBe(0);
+  });
+
+  it('scores unrelated words as 0', () => {
+    expect(tokenSimilarity(token('camera'), token('battery'))).toBe(0);
+  });
+});
+
+describe('ScriptAligner', () => {
+  it('stays put on an empty script', () => {
+    const aligner = new ScriptAligner([]);
+    expect(aligner.follow('welcome back to the channel')).toEqual({ position: 0, resynced: false });
+  });
+
+  it('ignores an empty transcript', () => {
+    const aligner = new ScriptAligner(scriptTokens);
+    expect(aligner.follow('')).toEqual({ position: 0, resynced: false });
+  });
+
+  it('follows reading in order, through filler words', () => {
+    const aligner = new ScriptAligner(scriptTokens);
+    expect(aligner.follow('welcome back').position).toBe(after('Welcome back'));
+    expect(aligner.follow('welcome back um to the channel').position).toBe(after('Welcome back to the channel'));
+    expect(aligner.follow('welcome back um to the channel today we are').position)
+      .toBe(after('channel. Today we are'));
+  });
+
+  it('matches homophones the ASR picked instead of the script word', () => {
+    const aligner = new ScriptAligner(scriptTokens);
+    aligner.seek(after('The menus are simple'));
+    expect(aligner.follow('and the autofocus is quick in low lite').position).toBe(after('quick in low light'));
+  });
+
+  it('matches spoken numbers against the script', () => {
+    const aligner = new ScriptAligner(parseSegmentToTokens('We launched in 2024 with three people.'));
+    expect(aligner.follow('we launched in twenty twenty four').position).toBe(4);
+    expect(aligner.follow('we launched in twenty twenty four with 3 people').position).toBe(7);
+  });
+
+  it('re-syncs when the speaker skips ahead', () => {
+    const aligner = new ScriptAligner(scriptTokens);
+    aligner.follow('welcome back to the channel');
+    const result = aligner.follow('welcome back to the channel the menus are simple and the autofocus');
+    expect(result).toEqual({ position: after('simple and the autofocus'), resynced: true });
+  });
+
+  it('re-syncs when the speaker goes back', () => {
+    const aligner = new ScriptAligner(scriptTokens);
+    aligner.seek(after('talk about the price'));
+    const result = aligner.follow('it records in four k and the battery');
+    expect(result).toEqual({ position: after('It records in four k and the battery'), resynced: true });
+  });
+
+  it('does not leap forward on a repeated common word', () => {
+    const aligner = new ScriptAligner(scriptTokens);
+    aligner.follow('welcome back to the channel');
+    const before = aligner.position;
+    const { position, resynced } = aligner.follow('welcome back to the channel the');
+    expect(resynced).toBe(false);
+    expect(position).toBe(before);
+  });
+
+  it('never moves backwards without a clear re-sync', () => {
+    const aligner = new ScriptAligner(scriptTokens);
+    aligner.seek(after('the battery lasts'));
+    expect(aligner.follow('welcome').position).toBe(after('the battery lasts'));
+  });
+
+  it('forgets speech from before a seek', () => {
+    const aligner = new ScriptAligner(scriptTokens);
+    aligner.follow('welcome back to the channel');
+    aligner.seek(after('The menus are simple'));
+    // The old words are still in the transcript but must not pull the position back
+    expect(aligner.follow('welcome back to the channel').position).toBe(after('The menus are simple'));
+    expect(aligner.follow('welcome back to the channel and the autofocus').position)
+      .toBe(after('simple and the autofocus'));
+  });
+
+  it('starts over after reset', () => {
+    const aligner = new ScriptAligner(scriptTokens);
+    aligner.follow('welcome back to the channel today we are looking');
+    aligner.reset();
+    expect(aligner.position).toBe(0);
+    expect(aligner.follow('welcome back').position).toBe(after('Welcome back'));
+  });
+});
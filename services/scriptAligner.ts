@@ -0,0 +1,368 @@
+import { pinyin } from 'pinyin-pro';
+import { parseSegmentToTokens } from './textTokens';
+
+// Follows a speaker through a teleprompter script. Pure logic, no React or DOM, so the
+// prompter, the pop-out window and anything else can share it.
+//
+// Script and speech are both normalized the same way before comparing:
+// - numbers are folded to digits ("twenty twenty-four", "2024" and "二零二四" all become "2024")
+// - every token gets a phonetic key (a rough English sound-alike code, or tone-less pinyin
+//   with the usual accent confusions merged), so homophones still count as a match
+// - longer words also match with a small edit distance (ASR spelling slips)
+//
+// Alignment is a Smith-Waterman local alignment of the last few spoken words against the
+// script. Normally it only moves forward near the current position; when a stretch of speech
+// clearly matches somewhere else (the speaker skipped ahead or went back), it re-syncs there.
+
+export interface AlignToken {
+  text: string;   // normalized form (lowercase, numbers as digits)
+  key: string;    // phonetic key
+  start: number;  // range of source tokens this covers (a spelled-out number spans several)
+  end: number;
+}
+
+export interface AlignResult {
+  position: number;   // source tokens read so far
+  resynced: boolean;  // true when the position jumped somewhere far from where it was
+}
+
+// Spoken words kept for alignment
+const SPOKEN_WINDOW = 10;
+// How far past the current position ordinary matching looks
+const LOOK_AHEAD = 30;
+// Scoring
+const GAP_SCRIPT = -0.6;    // speaker skipped a script word
+const GAP_SPOKEN = -0.7;    // filler word or ASR insertion
+const MISMATCH = -1;
+const MIN_SIMILARITY = 0.5;
+const DISTANCE_PENALTY = 0.05; // per token ahead, so a lone common word doesn't leap forward
+// A jump needs this many matched words and this much more score than the local match
+const RESYNC_MIN_MATCHES = 4;
+const RESYNC_MARGIN = 2;
+
+// ---- Numbers ----
+
+const EN_ONES: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+};
+const EN_TEENS: Record<string, number> = {
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const EN_TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const EN_SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9 };
+
+const isEnNumberWord = (w: string) =>
+  w in EN_ONES || w in EN_TEENS || w in EN_TENS || w in EN_SCALES || w === 'hundred';
+
+// "two thousand twenty four" -> "2024"; runs that don't combine into one cardinal are read
+// digit-group by digit-group, which covers years ("twenty twenty four", "nineteen ninety nine")
+function englishNumber(words: string[]): string {
+  const groups: number[] = [];
+  let total = 0;
+  let current = 0;
+  let last: 'none' | 'ones' | 'teen' | 'tens' | 'scale' = 'none';
+  const flush = () => {
+    groups.push(total + current);
+    total = 0;
+    current = 0;
+    last = 'none';
+  };
+  for (const w of words) {
+    if (w in EN_ONES) {
+      if (last === 'ones' || last === 'teen') flush();
+      current += EN_ONES[w];
+      last = 'ones';
+    } else if (w in EN_TEENS) {
+      if (last === 'ones' || last === 'teen' || last === 'tens') flush();
+      current += EN_TEENS[w];
+      last = 'teen';
+    } else if (w in EN_TENS) {
+      if (last === 'ones' || last === 'teen' || last === 'tens') flush();
+      current += EN_TENS[w];
+      last = 'tens';
+    } else if (w === 'hundred') {
+      current = (current || 1) * 100;
+      last = 'scale';
+    } else {
+      total += (current || 1) * EN_SCALES[w];
+      current = 0;
+      last = 'scale';
+    }
+  }
+  flush();
+  return groups.map(String).join('');
+}
+
+const ZH_DIGITS: Record<string, number> = {
+  '零': 0, '〇': 0, '一': 1, '二': 2, '两': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+};
+const ZH_UNITS: Record<string, number> = { '十': 10, '百': 100, '千': 1000 };
+const ZH_BIG_UNITS: Record<string, number> = { '万': 1e4, '亿': 1e8 };
+
+const isZhNumberChar = (c: string) => c in ZH_DIGITS || c in ZH_UNITS || c in ZH_BIG_UNITS;
+
+// "两千零二十四" -> "2024"; without unit characters the digits are read out ("二零二四")
+function chineseNumber(chars: string[]): string {
+  if (!chars.some(c => c in ZH_UNITS || c in ZH_BIG_UNITS)) {
+    return chars.map(c => ZH_DIGITS[c]).join('');
+  }
+  let total = 0;
+  let section = 0;
+  let digit = 0;
+  for (const c of chars) {
+    if (c in ZH_DIGITS) {
+      digit = ZH_DIGITS[c];
+    } else if (c in ZH_UNITS) {
+      section += (digit || 1) * ZH_UNITS[c];
+      digit = 0;
+    } else {
+      total += (section + digit || 1) * ZH_BIG_UNITS[c];
+      section = 0;
+      digit = 0;
+    }
+  }
+  return String(total + section + digit);
+}
+
+// ---- Phonetics ----
+
+// Very rough English sound-alike code: common spellings of the same sound are merged, then
+// vowels (after the first letter) and doubled letters are dropped. "right"/"write" -> "rt",
+// "their"/"there" -> "tr", "four"/"for" -> "fr".
+function englishKey(word: string): string {
+  const w = word
+    .replace(/^(kn|gn|pn|wr)/, m => m[1])
+    .replace(/^x/, 's')
+    .replace(/ph/g, 'f')
+    .replace(/gh/g, '')
+    .replace(/ck/g, 'k')
+    .replace(/th/g, 't')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/[cq]/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/d$/, 't');
+  let key = w[0] ?? '';
+  for (let i = 1; i < w.length; i++) {
+    const c = w[i];
+    if ('aeiouhwy'.includes(c) || c === key[key.length - 1]) continue;
+    key += c;
+  }
+  return key;
+}
+
+const pinyinCache = new Map<string, string>();
+
+// Tone-less pinyin with zh/z, ch/c, sh/s, n/l and -ng/-n folded together
+function chineseKey(char: string): string {
+  let key = pinyinCache.get(char);
+  if (key === undefined) {
+    key = pinyin(char, { toneType: 'none' })
+      .replace(/^([zcs])h/, '$1')
+      .replace(/^l/, 'n')
+      .replace(/ng$/, 'n');
+    pinyinCache.set(char, key);
+  }
+  return key;
+}
+
+export function phoneticKey(text: string): string {
+  if (/^\d+$/.test(text)) return text;
+  if (/^[\u4e00-\u9fa5]$/.test(text)) return chineseKey(text);
+  if (/^[a-z]+$/.test(text)) return englishKey(text);
+  return text;
+}
+
+// ---- Normalization ----
+
+// Normalize tokens from parseSegmentToTokens, merging number words into one digit token
+export function normalizeTokens(tokens: string[]): AlignToken[] {
+  const out: AlignToken[] = [];
+  const push = (text: string, start: number, end: number) =>
+    out.push({ text, key: phoneticKey(text), start, end });
+
+  let i = 0;
+  while (i < tokens.length) {
+    const word = tokens[i].toLowerCase();
+
+    if (isEnNumberWord(word)) {
+      // "and" is allowed inside a number: "one hundred and five"
+      let j = i + 1;
+      while (j < tokens.length) {
+        const next = tokens[j].toLowerCase();
+        if (isEnNumberWord(next)) j++;
+        else if (next === 'and' && j + 1 < tokens.length && isEnNumberWord(tokens[j + 1].toLowerCase())) j += 2;
+        else break;
+      }
+      const words = tokens.slice(i, j).map(t => t.toLowerCase()).filter(t => t !== 'and');
+      push(englishNumber(words), i, j);
+      i = j;
+      continue;
+    }
+
+    if (isZhNumberChar(word)) {
+      let j = i + 1;
+      while (j < tokens.length && isZhNumberChar(tokens[j])) j++;
+      push(chineseNumber(tokens.slice(i, j)), i, j);
+      i = j;
+      continue;
+    }
+
+    // "21st" -> "21"
+    push(word.replace(/^(\d+)(st|nd|rd|th)$/, '$1'), i, i + 1);
+    i++;
+  }
+  return out;
+}
+
+// Tokenize and normalize raw text; thousands separators are dropped first ("2,024")
+export const normalizeText = (text: string): AlignToken[] =>
+  normalizeTokens(parseSegmentToTokens(text.replace(/(\d),(?=\d{3}\b)/g, '$1')));
+
+// ---- Similarity ----
+
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+// 0..1: 1 for the same word, ~0.85 for homophones, lower for near spellings
+export function tokenSimilarity(a: AlignToken, b: AlignToken): number {
+  if (a.text === b.text) return 1;
+  if (a.key && a.key === b.key) {
+    // One-consonant keys ("t" for to/the/tea) say very little
+    return a.key.length > 1 || /^[\u4e00-\u9fa5]$/.test(a.text) ? 0.85 : 0.55;
+  }
+  if (a.text.length >= 4 && b.text.length >= 4 && /^[a-z]+$/.test(a.text) && /^[a-z]+$/.test(b.text)) {
+    const sim = 1 - editDistance(a.text, b.text) / Math.max(a.text.length, b.text.length);
+    if (sim >= 0.75) return sim * 0.9;
+  }
+  return 0;
+}
+
+// ---- Alignment ----
+
+export class ScriptAligner {
+  private tokens: AlignToken[];
+  private cursor = 0;       // normalized script tokens read
+  private spoken: string[] = [];
+  private heardCount = 0;   // words in the transcript last followed
+  private ignoreBefore = 0; // transcript words spoken before the last seek
+
+  constructor(scriptTokens: string[]) {
+    this.tokens = normalizeTokens(scriptTokens);
+  }
+
+  // Source tokens read so far
+  get position(): number {
+    return this.cursor === 0 ? 0 : this.tokens[this.cursor - 1].end;
+  }
+
+  // Move to a source token position (manual scrolling) and forget what was heard before it
+  seek(position: number) {
+    const index = this.tokens.findIndex(t => t.end > position);
+    this.cursor = index === -1 ? this.tokens.length : index;
+    this.spoken = [];
+    this.ignoreBefore = this.heardCount;
+  }
+
+  reset() {
+    this.seek(0);
+    this.heardCount = 0;
+    this.ignoreBefore = 0;
+  }
+
+  // Follow the live transcript (its last sentence may still be revised); only the most recent
+  // words matter. Returns where the speaker is now.
+  follow(transcript: string): AlignResult {
+    const words = parseSegmentToTokens(transcript.replace(/(\d),(?=\d{3}\b)/g, '$1'));
+    this.heardCount = words.length;
+    // A fresh transcript (new session) starts counting again
+    if (words.length < this.ignoreBefore) this.ignoreBefore = 0;
+
+    // Raw words are kept so a number spoken across sentences still normalizes as one
+    const recent = words.slice(Math.max(this.ignoreBefore, words.length - SPOKEN_WINDOW * 3));
+    if (recent.length === 0 || this.tokens.length === 0 || recent.join(' ') === this.spoken.join(' ')) {
+      return { position: this.position, resynced: false };
+    }
+    this.spoken = recent;
+    const spoken = normalizeTokens(recent).slice(-SPOKEN_WINDOW);
+
+    const { scores, matches } = this.alignEndings(spoken);
+
+    // Best ending near the current position (never moving backwards)...
+    let local = -1;
+    let localScore = 0;
+    const from = Math.max(this.cursor, 1);
+    const to = Math.min(this.tokens.length, this.cursor + LOOK_AHEAD);
+    for (let j = from; j <= to; j++) {
+      const score = scores[j] - DISTANCE_PENALTY * (j - this.cursor);
+      if (matches[j] > 0 && score > localScore) {
+        local = j;
+        localScore = score;
+      }
+    }
+
+    // ...versus the best ending anywhere else in the script, including behind us
+    let global = -1;
+    let globalScore = 0;
+    for (let j = 1; j <= this.tokens.length; j++) {
+      if (j >= this.cursor && j <= to) continue;
+      // Ties go to the occurrence nearest the current position
+      const score = scores[j] - 1e-6 * Math.abs(j - this.cursor);
+      if (matches[j] >= RESYNC_MIN_MATCHES && score > globalScore) {
+        global = j;
+        globalScore = score;
+      }
+    }
+
+    if (global !== -1 && globalScore >= localScore + RESYNC_MARGIN) {
+      this.cursor = global;
+      return { position: this.position, resynced: true };
+    }
+    if (local !== -1) this.cursor = local;
+    return { position: this.position, resynced: false };
+  }
+
+  // Smith-Waterman over the whole script, keeping only the last spoken row: for each script
+  // position j, the best score (and matched word count) of an alignment whose final spoken
+  // word lands at j.
+  private alignEndings(spoken: AlignToken[]) {
+    const n = this.tokens.length;
+    let prev = new Float64Array(n + 1);
+    let prevMatches = new Uint16Array(n + 1);
+    for (const word of spoken) {
+      const cur = new Float64Array(n + 1);
+      const curMatches = new Uint16Array(n + 1);
+      for (let j = 1; j <= n; j++) {
+        const sim = tokenSimilarity(this.tokens[j - 1], word);
+        const matched = sim >= MIN_SIMILARITY;
+        const diag = prev[j - 1] + (matched ? 1 + (sim - MIN_SIMILARITY) * 2 : MISMATCH);
+        const up = prev[j] + GAP_SPOKEN;
+        const left = cur[j - 1] + GAP_SCRIPT;
+        const best = Math.max(0, diag, up, left);
+        cur[j] = best;
+        if (best === 0) curMatches[j] = 0;
+        else if (best === diag) curMatches[j] = prevMatches[j - 1] + (matched ? 1 : 0);
+        else if (best === up) curMatches[j] = prevMatches[j];
+        else curMatches[j] = curMatches[j - 1];
+      }
+      prev = cur;
+      prevMatches = curMatches;
+    }
+    return { scores: prev, matches: prevMatches };
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PAUSE_SECONDS, parseInline, parseScript, spokenText, splitRunsAtToken } from './scriptMarkup';
+
+const kinds = (source: string) => parseScript(source).map(s => s.kind);
+
+describe('parseScript', () => {
+  it('splits spoken text into sentences', () => {
+    const segments = parseScript('Hello there. How are you? 你好。再见！');
+    expect(segments.map(s => s.text)).toEqual(['Hello there.', 'How are you?', '你好。', '再见！']);
+    expect(segments[0].tokens).toEqual(['Hello', 'there']);
+    expect(segments[2].tokens).toEqual(['你', '好']);
+  });
+
+  it('reads headings of any level as sections', () => {
+    const segments = parseScript('# Intro\nHello.\n### Part two\nBye.');
+    expect(segments.map(s => [s.kind, s.text])).toEqual([
+      ['section', 'Intro'],
+      ['speech', 'Hello.'],
+      ['section', 'Part two'],
+      ['speech', 'Bye.'],
+    ]);
+    expect(segments[0].tokens).toEqual([]);
+  });
+
+  it('does not take a hashtag without a space for a heading', () => {
+    expect(kinds('#hashtag is spoken.')).toEqual(['speech']);
+  });
+
+  it('reads > lines as speaker notes', () => {
+    const segments = parseScript('> Smile, look up\nWelcome.\n>no space');
+    expect(segments.map(s => [s.kind, s.text])).toEqual([
+      ['note', 'Smile, look up'],
+      ['speech', 'Welcome.'],
+      ['note', 'no space'],
+    ]);
+    expect(segments[0].tokens).toEqual([]);
+  });
+
+  it('parses pause cues with and without a length', () => {
+    const segments = parseScript('[pause]\n\n[pause 2s]\n\n[PAUSE 1.5]\n\n[pause soon]');
+    expect(segments.map(s => [s.kind, s.seconds])).toEqual([
+      ['pause', DEFAULT_PAUSE_SECONDS],
+      ['pause', 2],
+      ['pause', 1.5],
+      ['pause', DEFAULT_PAUSE_SECONDS],
+    ]);
+  });
+
+  it('parses slide cues with an optional label', () => {
+    const segments = parseScript('[slide]\n\n[slide Demo time]');
+    expect(segments.map(s => [s.kind, s.text])).toEqual([
+      ['slide', ''],
+      ['slide', 'Demo time'],
+    ]);
+  });
+
+  it('splits a sentence around a cue inside it', () => {
+    const segments = parseScript('And the winner is [pause 2s] our team. [slide Results] Thanks.');
+    expect(segments.map(s => [s.kind, s.text])).toEqual([
+      ['speech', 'And the winner is'],
+      ['pause', ''],
+      ['speech', 'our team.'],
+      ['slide', 'Results'],
+      ['speech', 'Thanks.'],
+    ]);
+  });
+
+  it('joins lines of a paragraph so sentences can wrap', () => {
+    const segments = parseScript('This sentence wraps\nonto the next line.\n\nNew paragraph');
+    expect(segments.map(s => s.text)).toEqual(['This sentence wraps onto the next line.', 'New paragraph']);
+  });
+
+  it('keeps emphasis markup out of text and tokens', () => {
+    const [segment] = parseScript('This is **really** *very* _important_.');
+    expect(segment.text).toBe('This is really very important.');
+    expect(segment.tokens).toEqual(['This', 'is', 'really', 'very', 'important']);
+  });
+
+  it('ignores blank lines and empty input', () => {
+    expect(parseScript('')).toEqual([]);
+    expect(parseScript('\n  \n\r\n')).toEqual([]);
+  });
+});
+
+describe('parseInline', () => {
+  it('marks strong and emphasized runs', () => {
+    expect(parseInline('a **b** *c* _d_ e')).toEqual([
+      { text: 'a ' },
+      { text: 'b', strong: true },
+      { text: ' ' },
+      { text: 'c', em: true },
+      { text: ' ' },
+      { text: 'd', em: true },
+      { text: ' e' },
+    ]);
+  });
+
+  it('leaves an unclosed ** as plain text', () => {
+    const runs = parseInline('Price is **low today');
+    expect(runs.every(r => !r.strong && !r.em)).toBe(true);
+    expect(runs.map(r => r.text).join('')).toBe('Price is **low today');
+  });
+
+  it('does not read snake_case_word as emphasis', () => {
+    expect(parseInline('call snake_case_word now')).toEqual([{ text: 'call snake_case_word now' }]);
+  });
+});
+
+describe('spokenText', () => {
+  it('keeps only what is said', () => {
+    const segments = parseScript('# Intro\n> Breathe\nHello **world**. [pause 2s] Next up. [slide Demo]');
+    expect(spokenText(segments)).toBe('Hello world. Next up.');
+  });
+});
+
+describe('splitRunsAtToken', () => {
+  const runs = parseInline('We are **really very** happy.');
+
+  it('marks nothing read at 0 and everything read past the end', () => {
+    expect(splitRunsAtToken(runs, 0).every(r => !r.read)).toBe(true);
+    expect(splitRunsAtToken(runs, 10).every(r => r.read)).toBe(true);
+  });
+
+  it('splits inside a stressed run, keeping its emphasis', () => {
+    expect(splitRunsAtToken(runs, 3)).toEqual([
+      { text: 'We are ', read: true },
+      { text: 'really', strong: true, read: true },
+      { text: ' very', strong: true, read: false },
+      { text: ' happy.', read: false },
+    ]);
+  });
+
+  it('splits plain text after a CJK character', () => {
+    expect(splitRunsAtToken([{ text: '你好世界' }], 2)).toEqual([
+      { text: '你好', read: true },
+      { text: '世界', read: false },
+    ]);
+  });
+});
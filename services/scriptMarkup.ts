@@ -0,0 +1,156 @@
+import { parseSegmentToTokens, tokenizeWithOffsets } from './textTokens';
+
+// Lightweight, Markdown-ish teleprompter script format:
+//
+//   # Intro                  section heading (any number of #)
+//   > Smile, look up         speaker note: shown to the reader, never matched against speech
+//   Welcome to **the** show. spoken text; **strong** and *emphasis* / _emphasis_ mark stress
+//   [pause 2s]  [pause]      pause cue (seconds optional), also on its own inside a sentence
+//   [slide]  [slide Demo]    slide-change cue with an optional label
+//
+// Spoken text is split into sentence segments on . ! ? 。 ！ ？ like before; everything else
+// becomes its own segment with no tokens, so voice matching and timed scrolling pass over it.
+
+export type ScriptSegmentKind = 'speech' | 'section' | 'note' | 'pause' | 'slide';
+
+export interface ScriptRun {
+  text: string;
+  strong?: boolean;
+  em?: boolean;
+}
+
+export interface ScriptSegment {
+  kind: ScriptSegmentKind;
+  text: string; // plain text: the sentence without markup, heading title, note or slide label
+  runs: ScriptRun[]; // speech only; empty otherwise
+  tokens: string[]; // what voice matching follows; empty for everything but speech
+  seconds?: number; // pause length
+}
+
+export const DEFAULT_PAUSE_SECONDS = 1;
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const NOTE = /^>\s?(.*)$/;
+const CUE = /\[(pause|slide)(?:\s+([^\]]*))?\]/gi;
+const EMPHASIS = /\*\*(.+?)\*\*|\*(.+?)\*|(?<![\w])_(.+?)_(?![\w])/g;
+
+const cueSegment = (name: string, arg: string | undefined): ScriptSegment => {
+  if (name.toLowerCase() === 'pause') {
+    const seconds = parseFloat(arg || '');
+    return {
+      kind: 'pause',
+      text: '',
+      runs: [],
+      tokens: [],
+      seconds: Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_PAUSE_SECONDS,
+    };
+  }
+  return { kind: 'slide', text: (arg || '').trim(), runs: [], tokens: [] };
+};
+
+// Split a sentence into runs of plain / stressed text
+export function parseInline(text: string): ScriptRun[] {
+  const runs: ScriptRun[] = [];
+  let last = 0;
+  let match;
+  EMPHASIS.lastIndex = 0;
+  while ((match = EMPHASIS.exec(text)) !== null) {
+    if (match.index > last) runs.push({ text: text.slice(last, match.index) });
+    if (match[1] !== undefined) runs.push({ text: match[1], strong: true });
+    else runs.push({ text: match[2] ?? match[3], em: true });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last) });
+  return runs;
+}
+
+const speechSegment = (sentence: string): ScriptSegment | null => {
+  const runs = parseInline(sentence);
+  const text = runs.map(r => r.text).join('');
+  if (!text.trim()) return null;
+  // Tokens per run, so highlighting and matching agree even with markup inside a word
+  return { kind: 'speech', text, runs, tokens: runs.flatMap(r => parseSegmentToTokens(r.text)) };
+};
+
+// Spoken text (possibly several sentences and cues) into segments
+function parseSpeech(text: string): ScriptSegment[] {
+  const segments: ScriptSegment[] = [];
+  const pushSentences = (chunk: string) => {
+    chunk
+      .replace(/([.!?。！？])\s*/g, '$1|') // Add separator after punctuation
+      .split('|')
+      .map(s => s.trim())
+      .filter(s => s.length > 0)
+      .forEach(s => {
+        const segment = speechSegment(s);
+        if (segment) segments.push(segment);
+      });
+  };
+
+  let last = 0;
+  let match;
+  CUE.lastIndex = 0;
+  while ((match = CUE.exec(text)) !== null) {
+    pushSentences(text.slice(last, match.index));
+    segments.push(cueSegment(match[1], match[2]));
+    last = match.index + match[0].length;
+  }
+  pushSentences(text.slice(last));
+  return segments;
+}
+
+export function parseScript(source: string): ScriptSegment[] {
+  const segments: ScriptSegment[] = [];
+  // Consecutive text lines form one paragraph, so a sentence may wrap across lines
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length) segments.push(...parseSpeech(paragraph.join(' ')));
+    paragraph = [];
+  };
+
+  for (const raw of source.split(/\r?\n/)) {
+    const line = raw.trim();
+    const heading = line.match(HEADING);
+    const note = line.match(NOTE);
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      segments.push({ kind: 'section', text: heading[2].trim(), runs: [], tokens: [] });
+    } else if (note) {
+      flush();
+      segments.push({ kind: 'note', text: note[1].trim(), runs: [], tokens: [] });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return segments;
+}
+
+// What the speaker actually says, for speech providers that take the script as context
+export const spokenText = (segments: ScriptSegment[]) =>
+  segments.filter(s => s.kind === 'speech').map(s => s.text).join(' ');
+
+// Runs of a speech segment split into already-read and unread parts after `readTokens` tokens,
+// keeping punctuation and emphasis
+export function splitRunsAtToken(runs: ScriptRun[], readTokens: number): (ScriptRun & { read: boolean })[] {
+  const out: (ScriptRun & { read: boolean })[] = [];
+  let remaining = readTokens;
+  for (const run of runs) {
+    const tokens = tokenizeWithOffsets(run.text);
+    if (remaining >= tokens.length) {
+      out.push({ ...run, read: remaining > 0 });
+      remaining -= tokens.length;
+    } else if (remaining <= 0) {
+      out.push({ ...run, read: false });
+    } else {
+      const last = tokens[remaining - 1];
+      const split = last.index + last.token.length;
+      out.push({ ...run, text: run.text.slice(0, split), read: true });
+      out.push({ ...run, text: run.text.slice(split), read: false });
+      remaining = 0;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,26 @@
+// Tiny localStorage wrapper for user preferences that should survive reloads
+const PREFIX = 'tuilirec.';
+
+export function loadSetting<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    if (raw === null) return fallback;
+    const parsed = JSON.parse(raw);
+    // Merge plain objects so settings saved by an older build pick up new fields
+    if (fallback && typeof fallback === 'object' && !Array.isArray(fallback)) {
+      return { ...fallback, ...parsed };
+    }
+    return parsed as T;
+  } catch (e) {
+    console.warn(`Failed to load setting "${key}"`, e);
+    return fallback;
+  }
+}
+
+export function saveSetting<T>(key: string, value: T) {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Failed to save setting "${key}"`, e);
+  }
+}
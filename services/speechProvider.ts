@@ -0,0 +1,84 @@
+import { AiFeature, ConnectionState, SpeechProviderId } from '../types';
+
+// Timed recognition result. Times are wall-clock epoch ms so they can be mapped onto
+// whatever timeline the consumer cares about (e.g. the MediaRecorder start).
+export interface TranscriptResult {
+  // Stable per sentence: partial revisions of a sentence and its final share the id, and
+  // each result carries the sentence's whole current text (see TranscriptStore)
+  sentenceId: string;
+  text: string;
+  isFinal: boolean;
+  startedAt: number;
+  endedAt: number;
+  words?: { text: string; startedAt: number; endedAt: number }[];
+  estimated: boolean;
+}
+
+// Shared callback contract for every speech backend
+export interface SpeechCallbacks {
+  onTranscriptResult: (result: TranscriptResult) => void;
+  onInterviewerQuestion?: (text: string) => void;
+  onOpen: () => void;
+  onError: (e: Error) => void;
+  // Optional: providers that recover from dropped connections report progress here
+  onConnectionStateChange?: (state: ConnectionState) => void;
+}
+
+export interface SpeechProvider {
+  readonly id: SpeechProviderId;
+  readonly label: string;
+  readonly supportedFeatures: AiFeature[];
+  // Cheap check (browser support / credentials present) used to grey out options in the UI
+  isAvailable(): boolean;
+  connect(feature: AiFeature, scriptContext: string, callbacks: SpeechCallbacks): Promise<void>;
+  // Stop listening without tearing down the session (recording paused)
+  pause(): void;
+  resume(): void;
+  disconnect(): void;
+}
+
+const registry = new Map<SpeechProviderId, SpeechProvider>();
+
+// Shared mic input (the processed mic from micProcessor). Providers that capture raw
+// PCM use it instead of opening their own getUserMedia stream when it is set.
+let speechInputStream: MediaStream | null = null;
+
+export function setSpeechInputStream(stream: MediaStream | null) {
+  speechInputStream = stream;
+}
+
+export function getSpeechInputStream(): MediaStream | null {
+  return speechInputStream;
+}
+
+export function registerSpeechProvider(provider: SpeechProvider) {
+  registry.set(provider.id, provider);
+}
+
+export function getSpeechProvider(id: SpeechProviderId): SpeechProvider | undefined {
+  return registry.get(id);
+}
+
+export function listSpeechProviders(feature?: AiFeature): SpeechProvider[] {
+  const all = Array.from(registry.values());
+  return feature ? all.filter(p => p.supportedFeatures.includes(feature)) : all;
+}
+
+export function pauseAllSpeechProviders() {
+  registry.forEach(p => p.pause());
+}
+
+export function resumeAllSpeechProviders() {
+  registry.forEach(p => p.resume());
+}
+
+export function disconnectAllSpeechProviders() {
+  registry.forEach(p => p.disconnect());
+}
+
+// Backend used for each feature until the user picks something else
+export const DEFAULT_SPEECH_PROVIDERS: Record<AiFeature, SpeechProviderId | null> = {
+  [AiFeature.NONE]: null,
+  [AiFeature.TELEPROMPTER]: SpeechProviderId.ALIYUN,
+  [AiFeature.INTERVIEWER]: SpeechProviderId.GEMINI_LIVE,
+};
@@ -0,0 +1,10 @@
+import { registerSpeechProvider } from './speechProvider';
+import { aliyunAsr } from './aliyunAsrService';
+import { webSpeech } from './webSpeechService';
+import { geminiLive } from './geminiService';
+import { fakeSpeech } from './fakeSpeechService';
+
+// Built-in backends. New providers only need to implement SpeechProvider and be registered here.
+[aliyunAsr, webSpeech, geminiLive, fakeSpeech].forEach(registerSpeechProvider);
+
+export * from './speechProvider';
@@ -0,0 +1,135 @@
+import { TranscriptModel, TranscriptSegment } from '../types';
+import { isCJK, parseSegmentToTokens, tokenizeWithOffsets } from './textTokens';
+
+export interface SubtitleOptions {
+  enabled: boolean;
+  maxLineWidth: number; // in columns; CJK / full-width chars count as 2
+  maxLines: number;
+  cjkLineBreaking: boolean; // allow breaks between CJK chars, not just at spaces
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  enabled: true,
+  maxLineWidth: 42,
+  maxLines: 2,
+  cjkLineBreaking: true,
+};
+
+export interface SubtitleCue {
+  start: number; // ms
+  end: number;
+  lines: string[];
+}
+
+const FULL_WIDTH = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/;
+
+// Monospace-ish width used for subtitle files: CJK and full-width punctuation take two columns
+export const displayWidth = (text: string) => {
+  let width = 0;
+  for (const ch of text) width += FULL_WIDTH.test(ch) ? 2 : 1;
+  return width;
+};
+
+// Split text into unbreakable units using the teleprompter tokenizer. Each unit runs from
+// one token to the next, so trailing punctuation and spaces stay glued to the preceding
+// word and a line never starts with "，" or ".". Breaks are allowed at whitespace, after
+// punctuation, and (with cjkLineBreaking) next to any CJK char.
+const splitIntoUnits = (text: string, cjkLineBreaking: boolean): string[] => {
+  const starts: number[] = [];
+  let prevToken = '';
+  let prevEnd = 0;
+  for (const { token, index } of tokenizeWithOffsets(text)) {
+    const gap = text.slice(prevEnd, index);
+    const canBreak = starts.length === 0
+      || /\s/.test(gap)
+      || /[,.!?;:，。！？；：、）)」』”]/.test(gap)
+      || (cjkLineBreaking && (isCJK(token) || isCJK(prevToken)));
+    if (canBreak) starts.push(index);
+    prevToken = token;
+    prevEnd = index + token.length;
+  }
+  if (starts.length === 0) return text.trim() ? [text] : [];
+
+  // Leading punctuation/quotes belong to the first unit
+  starts[0] = 0;
+  return starts.map((start, i) => text.slice(start, starts[i + 1] ?? text.length));
+};
+
+// Greedy line wrapping with a pluggable measure (columns for files, pixels for canvas)
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  measure: (s: string) => number,
+  cjkLineBreaking = true
+): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const unit of splitIntoUnits(text.trim(), cjkLineBreaking)) {
+    const candidate = line + unit;
+    if (line && measure(candidate.trimEnd()) > maxWidth) {
+      lines.push(line.trimEnd());
+      line = unit.trimStart();
+    } else {
+      line = candidate;
+    }
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines;
+}
+
+const segmentToCues = (segment: TranscriptSegment, options: SubtitleOptions): SubtitleCue[] => {
+  const lines = wrapText(segment.text, options.maxLineWidth, displayWidth, options.cjkLineBreaking);
+  if (lines.length === 0) return [];
+
+  const totalTokens = parseSegmentToTokens(segment.text).length || 1;
+  // Word timings line up with our tokens when they were estimated (or the provider tokenizes the same way)
+  const useWords = segment.words.length === totalTokens;
+  const span = segment.end - segment.start;
+
+  const cues: SubtitleCue[] = [];
+  let tokenCursor = 0;
+  for (let i = 0; i < lines.length; i += options.maxLines) {
+    const cueLines = lines.slice(i, i + options.maxLines);
+    const cueTokens = cueLines.reduce((n, l) => n + parseSegmentToTokens(l).length, 0);
+    const first = tokenCursor;
+    const last = Math.min(tokenCursor + Math.max(cueTokens, 1), totalTokens) - 1;
+    tokenCursor += cueTokens;
+
+    const start = useWords ? segment.words[first].start : segment.start + span * (first / totalTokens);
+    const end = useWords ? segment.words[last].end : segment.start + span * ((last + 1) / totalTokens);
+    cues.push({ start: Math.round(start), end: Math.round(Math.max(end, start)), lines: cueLines });
+  }
+  return cues;
+};
+
+export function buildCues(model: TranscriptModel, options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): SubtitleCue[] {
+  const cues = model.segments.flatMap(seg => segmentToCues(seg, options));
+  // Players dislike overlapping cues; trim each one to end where the next begins
+  for (let i = 0; i < cues.length - 1; i++) {
+    if (cues[i].end > cues[i + 1].start) cues[i].end = Math.max(cues[i].start, cues[i + 1].start);
+  }
+  return cues;
+}
+
+const formatTimestamp = (ms: number, separator: ',' | '.') => {
+  const total = Math.max(0, Math.round(ms));
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor((total % 3600000) / 60000);
+  const s = Math.floor((total % 60000) / 1000);
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(total % 1000, 3)}`;
+};
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
@@ -0,0 +1,20 @@
+// Shared tokenizer for mixed Chinese/English text (teleprompter matching, transcript timing)
+
+// Utility to check for CJK characters
+export const isCJK = (str: string) => /[\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af]/.test(str);
+
+// Advanced Tokenizer for mixed Chinese/English, keeping each token's offset in the source
+export const tokenizeWithOffsets = (segment: string): { token: string; index: number }[] => {
+    const tokens: { token: string; index: number }[] = [];
+    // Split by non-word boundaries but keep CJK chars as individual tokens
+    // This regex looks for: English words OR individual CJK chars
+    const regex = /[a-zA-Z0-9]+|[\u4e00-\u9fa5\u3040-\u30ff\uac00-\ud7af]/g;
+    let match;
+    while ((match = regex.exec(segment)) !== null) {
+        tokens.push({ token: match[0], index: match.index });
+    }
+    return tokens;
+};
+
+export const parseSegmentToTokens = (segment: string): string[] =>
+    tokenizeWithOffsets(segment).map(t => t.token);
@@ -0,0 +1,62 @@
+import { TranscriptResult } from './speechProvider';
+import { isCJK } from './textTokens';
+
+// Live transcript built from revisable ASR results. Providers report every sentence under a
+// stable id: partials replace that sentence's previous text and a final result commits it, so
+// the same words never pile up as a sentence is revised.
+
+export interface TranscriptSentence {
+  id: string;
+  text: string;
+  isFinal: boolean;
+}
+
+export class TranscriptStore {
+  private sentences: TranscriptSentence[] = [];
+  private byId = new Map<string, TranscriptSentence>();
+  private cachedText: string | null = null;
+
+  // Returns whether the transcript changed
+  apply(result: Pick<TranscriptResult, 'sentenceId' | 'text' | 'isFinal'>): boolean {
+    const text = result.text.trim();
+    const existing = this.byId.get(result.sentenceId);
+
+    if (existing) {
+      // A committed sentence only changes through another final (late partials are stale)
+      if (existing.isFinal && !result.isFinal) return false;
+      if (existing.text === text && existing.isFinal === result.isFinal) return false;
+      existing.text = text;
+      existing.isFinal = result.isFinal;
+    } else {
+      if (!text) return false;
+      const sentence = { id: result.sentenceId, text, isFinal: result.isFinal };
+      this.sentences.push(sentence);
+      this.byId.set(sentence.id, sentence);
+    }
+
+    this.cachedText = null;
+    return true;
+  }
+
+  getSentences(): TranscriptSentence[] {
+    return this.sentences;
+  }
+
+  // Whole transcript, partial tail included. CJK sentences are joined without spaces.
+  get text(): string {
+    if (this.cachedText === null) {
+      this.cachedText = this.sentences.reduce((text, { text: next }) => {
+        if (!next) return text;
+        if (!text) return next;
+        return isCJK(text[text.length - 1]) && isCJK(next[0]) ? text + next : `${text} ${next}`;
+      }, '');
+    }
+    return this.cachedText;
+  }
+
+  clear() {
+    this.sentences = [];
+    this.byId.clear();
+    this.cachedText = null;
+  }
+}
@@ -0,0 +1,75 @@
+import { SpeechProviderId, TranscriptModel, TranscriptSegment, TranscriptWord } from '../types';
+import { TranscriptResult } from './speechProvider';
+import { isCJK, parseSegmentToTokens } from './textTokens';
+import { RecordingClock } from './recordingClock';
+
+// Spread a sentence's duration over its tokens, weighted by length, when the
+// provider gives no word timings. CJK chars count as one token each.
+export function estimateWordTimings(text: string, start: number, end: number): TranscriptWord[] {
+  const tokens = parseSegmentToTokens(text);
+  if (tokens.length === 0) return [];
+
+  const weights = tokens.map(t => (isCJK(t) ? 1 : Math.max(t.length / 3, 1)));
+  const total = weights.reduce((a, b) => a + b, 0);
+  const span = Math.max(end - start, 0);
+
+  let cursor = start;
+  return tokens.map((text, i) => {
+    const duration = span * (weights[i] / total);
+    const word = { text, start: Math.round(cursor), end: Math.round(cursor + duration) };
+    cursor += duration;
+    return word;
+  });
+}
+
+// Collects final ASR results during a recording and maps them onto the recording timeline
+export class TranscriptTimeline {
+  private clock = new RecordingClock();
+  private active = false;
+  private segments: TranscriptSegment[] = [];
+  private nextId = 0;
+
+  // The clock is shared with the recorder so paused spans are skipped
+  begin(clock: RecordingClock) {
+    this.clock = clock;
+    this.active = true;
+    this.segments = [];
+    this.nextId = 0;
+  }
+
+  add(result: TranscriptResult, provider: SpeechProviderId) {
+    // Partials are revised constantly; only committed sentences belong on the timeline
+    if (!this.active || !result.isFinal || !result.text.trim()) return;
+
+    const toRelative = (t: number) => Math.round(this.clock.toTimeline(t));
+    const start = toRelative(result.startedAt);
+    const end = Math.max(toRelative(result.endedAt), start);
+    // Speech that finished before recording started is not part of this take
+    if (result.endedAt < this.clock.startTime) return;
+
+    const words = result.words && result.words.length > 0
+      ? result.words.map(w => ({ text: w.text, start: toRelative(w.startedAt), end: toRelative(w.endedAt) }))
+      : estimateWordTimings(result.text, start, end);
+
+    this.segments.push({
+      id: `s${this.nextId++}`,
+      text: result.text.trim(),
+      start,
+      end,
+      words,
+      estimated: result.estimated || !result.words || result.words.length === 0,
+      provider,
+    });
+  }
+
+  end(stoppedAt: number): TranscriptModel {
+    this.active = false;
+    return {
+      version: 1,
+      recordingStartedAt: new Date(this.clock.startTime).toISOString(),
+      durationMs: Math.round(this.clock.toTimeline(stoppedAt)),
+      // Providers can deliver out of order around reconnects
+      segments: [...this.segments].sort((a, b) => a.start - b.start),
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiFeature } from '../types';
+import { SpeechCallbacks, SpeechProvider } from './speechProvider';
+
+// Minimal SpeechRecognition: abort() and stop() report like the browser does, an 'aborted'
+// error (abort only) followed by end
+class MockRecognition {
+  static instances: MockRecognition[] = [];
+  onresult: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  onend: (() => void) | null = null;
+  running = false;
+
+  constructor() {
+    MockRecognition.instances.push(this);
+  }
+
+  start() {
+    if (this.running) throw new Error('InvalidStateError: recognition has already started');
+    this.running = true;
+  }
+
+  stop() {
+    this.running = false;
+    this.onend?.();
+  }
+
+  abort() {
+    this.running = false;
+    this.onerror?.({ error: 'aborted' });
+    this.onend?.();
+  }
+
+  fail(error: string) {
+    this.onerror?.({ error });
+  }
+}
+
+// The module creates its singleton on import, so window has to exist first
+vi.hoisted(() => {
+  (globalThis as any).window = {};
+});
+
+const { WebSpeechService } = await import('./webSpeechService');
+
+const callbacks = () => ({
+  onTranscriptResult: vi.fn(),
+  onInterviewerQuestion: vi.fn(),
+  onOpen: vi.fn(),
+  onError: vi.fn(),
+}) satisfies SpeechCallbacks;
+
+describe('WebSpeechService', () => {
+  let provider: SpeechProvider;
+
+  beforeEach(() => {
+    MockRecognition.instances = [];
+    (window as any).SpeechRecognition = MockRecognition;
+    provider = new WebSpeechService();
+  });
+
+  afterEach(() => {
+    provider.disconnect();
+  });
+
+  it('does not report an error when paused', async () => {
+    const cb = callbacks();
+    await provider.connect(AiFeature.INTERVIEWER, '', cb);
+    expect(cb.onOpen).toHaveBeenCalledOnce();
+
+    provider.pause();
+    expect(cb.onError).not.toHaveBeenCalled();
+
+    provider.resume();
+    expect(MockRecognition.instances[0].running).toBe(true);
+    expect(cb.onError).not.toHaveBeenCalled();
+  });
+
+  it('does not report an error on disconnect', async () => {
+    const cb = callbacks();
+    await provider.connect(AiFeature.TELEPROMPTER, '', cb);
+    provider.disconnect();
+    expect(cb.onError).not.toHaveBeenCalled();
+  });
+
+  it('still reports real recognition errors', async () => {
+    const cb = callbacks();
+    await provider.connect(AiFeature.TELEPROMPTER, '', cb);
+    MockRecognition.instances[0].fail('no-speech');
+    expect(cb.onError).not.toHaveBeenCalled();
+
+    MockRecognition.instances[0].fail('not-allowed');
+    expect(cb.onError).toHaveBeenCalledOnce();
+    expect(cb.onError.mock.calls[0][0].message).toContain('not-allowed');
+  });
+});
@@ -1,24 +1,32 @@
-import { AiFeature } from '../types';
+import { AiFeature, SpeechProviderId } from '../types';
+import { SpeechCallbacks, SpeechProvider } from './speechProvider';
 
-interface SpeechCallbacks {
-  onTranscriptUpdate: (text: string) => void;
-  onInterviewerQuestion?: (text: string) => void;
-  onOpen: () => void;
-  onError: (e: Error) => void;
-}
+// Results usually arrive a few hundred ms after the speaker started the phrase
+const ESTIMATED_RECOGNITION_LAG_MS = 300;
 
 // Use browser's native Web Speech API (works in Chrome/Edge)
-export class WebSpeechService {
+export class WebSpeechService implements SpeechProvider {
+  readonly id = SpeechProviderId.WEB_SPEECH;
+  readonly label = 'Browser Speech (Web Speech API)';
+  readonly supportedFeatures = [AiFeature.TELEPROMPTER, AiFeature.INTERVIEWER];
+
   private recognition: any = null;
   private currentFeature: AiFeature = AiFeature.NONE;
   private callbacks: SpeechCallbacks | null = null;
   private isActive = false;
+  // Recognition is stopped while paused and restarted on resume
+  private isPaused = false;
 
   // Interview mode state
   private lastSpeechTime: number = 0;
   private silenceTimer: NodeJS.Timeout | null = null;
   private currentTranscript: string = '';
 
+  // First time each result index was seen, for estimated timings
+  private resultStartTimes = new Map<number, number>();
+  // Result indices start over with every recognition session; this keeps sentence ids unique
+  private session = 0;
+
   constructor() {
     // Check browser support
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
@@ -27,6 +35,10 @@ export class WebSpeechService {
     }
   }
 
+  isAvailable(): boolean {
+    return !!((window as any).SpeechRecognition || (window as any).webkitSpeechRecognition);
+  }
+
   async connect(
     feature: AiFeature,
     scriptContext: string,
@@ -36,6 +48,9 @@ export class WebSpeechService {
     this.currentFeature = feature;
     this.callbacks = callbacks;
     this.currentTranscript = '';
+    this.isPaused = false;
+    this.resultStartTimes.clear();
+    this.session++;
 
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
 
@@ -53,32 +68,42 @@ export class WebSpeechService {
     this.recognition.maxAlternatives = 1;
 
     // Handle results
+    // event.resultIndex is the first result that changed; results from there on are either
+    // revisions of a partial (same index) or new sentences
     this.recognition.onresult = (event: any) => {
-      let interimTranscript = '';
       let finalTranscript = '';
+      const now = Date.now();
 
       for (let i = event.resultIndex; i < event.results.length; i++) {
         const transcript = event.results[i][0].transcript;
+        // Web Speech has no timings; approximate a sentence as first-seen -> final
+        if (!this.resultStartTimes.has(i)) {
+          this.resultStartTimes.set(i, now - ESTIMATED_RECOGNITION_LAG_MS);
+        }
+        const startedAt = this.resultStartTimes.get(i)!;
+
         if (event.results[i].isFinal) {
           finalTranscript += transcript;
-        } else {
-          interimTranscript += transcript;
+          this.resultStartTimes.delete(i);
         }
-      }
 
-      // Send updates
-      const text = finalTranscript || interimTranscript;
-      if (text && this.callbacks) {
-        this.callbacks.onTranscriptUpdate(text);
+        this.callbacks?.onTranscriptResult({
+          sentenceId: `${this.session}:${i}`,
+          text: transcript,
+          isFinal: event.results[i].isFinal,
+          startedAt,
+          endedAt: now,
+          estimated: true,
+        });
+      }
 
-        if (finalTranscript) {
-          this.currentTranscript += ' ' + finalTranscript;
-          this.lastSpeechTime = Date.now();
+      if (finalTranscript && this.callbacks) {
+        this.currentTranscript += ' ' + finalTranscript;
+        this.lastSpeechTime = Date.now();
 
-          // For interviewer mode, detect silence
-          if (this.currentFeature === AiFeature.INTERVIEWER) {
-            this.handleInterviewMode();
-          }
+        // For interviewer mode, detect silence (late results after pause() don't count)
+        if (this.currentFeature === AiFeature.INTERVIEWER && !this.isPaused) {
+          this.handleInterviewMode();
         }
       }
     };
@@ -87,8 +112,10 @@ export class WebSpeechService {
     this.recognition.onerror = (event: any) => {
       console.error('Speech recognition error:', event.error);
 
-      // Don't treat "no-speech" as a fatal error
-      if (event.error !== 'no-speech') {
+      // Don't treat "no-speech" as a fatal error, nor "aborted": pause() and disconnect()
+      // abort or stop recognition themselves
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      if (this.isActive && !this.isPaused) {
         this.callbacks?.onError(new Error(`Speech recognition error: ${event.error}`));
       }
     };
@@ -96,9 +123,12 @@ export class WebSpeechService {
     // Handle end
     this.recognition.onend = () => {
       // Restart if still active
-      if (this.isActive) {
+      if (this.isActive && !this.isPaused) {
         console.log('Restarting speech recognition...');
         try {
+          // Result indices start over with the new session
+          this.resultStartTimes.clear();
+          this.session++;
           this.recognition.start();
         } catch (e) {
           console.error('Failed to restart recognition:', e);
@@ -143,8 +173,37 @@ export class WebSpeechService {
     }, 2000);
   }
 
+  pause() {
+    if (!this.isActive || this.isPaused) return;
+    this.isPaused = true;
+    if (this.silenceTimer) {
+      clearTimeout(this.silenceTimer);
+      this.silenceTimer = null;
+    }
+    try {
+      // abort() drops the pending partial instead of finalizing it after the pause point
+      this.recognition?.abort();
+    } catch (e) {
+      console.log('Recognition already stopped');
+    }
+  }
+
+  resume() {
+    if (!this.isActive || !this.isPaused) return;
+    this.isPaused = false;
+    this.resultStartTimes.clear();
+    this.session++;
+    try {
+      this.recognition?.start();
+    } catch (e) {
+      // Still shutting down from the pause; onend will restart it
+      console.log('Recognition restart deferred:', e);
+    }
+  }
+
   disconnect() {
     this.isActive = false;
+    this.isPaused = false;
 
     // Clear silence timer
     if (this.silenceTimer) {
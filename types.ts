@@ -1,7 +1,8 @@
 export enum AppMode {
   IDLE = 'IDLE',
   PREVIEW = 'PREVIEW',
-  RECORDING = 'RECORDING'
+  RECORDING = 'RECORDING',
+  PAUSED = 'PAUSED'
 }
 
 export enum AiFeature {
@@ -10,10 +11,71 @@ export enum AiFeature {
   TELEPROMPTER = 'TELEPROMPTER'
 }
 
+export enum ConnectionState {
+  CONNECTING = 'CONNECTING',
+  CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
+  DISCONNECTED = 'DISCONNECTED'
+}
+
+export enum SpeechProviderId {
+  ALIYUN = 'ALIYUN',
+  WEB_SPEECH = 'WEB_SPEECH',
+  GEMINI_LIVE = 'GEMINI_LIVE',
+  FAKE = 'FAKE'
+}
+
+// Transcript captured during a recording. Times are ms relative to MediaRecorder start.
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  text: string;
+  start: number;
+  end: number;
+  words: TranscriptWord[];
+  estimated: boolean; // true when the provider gave no real timings (Web Speech, Gemini)
+  provider: SpeechProviderId;
+}
+
+export interface TranscriptModel {
+  version: 1;
+  recordingStartedAt: string; // ISO timestamp
+  durationMs: number;
+  segments: TranscriptSegment[];
+}
+
+// Chapter marker written to the .chapters.json sidecar; a new chapter starts at every resume
+export interface ChapterMarker {
+  index: number;
+  title: string;
+  start: number; // ms on the recording timeline
+  wallClock: string; // ISO timestamp when the chapter started
+}
+
+// How camera and screen share the canvas (isFullCam overrides all of them):
+// - pip: round bubble over the screen
+// - pip-rect: rounded rectangle over the screen, with its own aspect ratio
+// - side-by-side: camera and screen panes left/right
+// - stacked: camera pane above the screen (vertical shorts)
+export type CamLayout = 'pip' | 'pip-rect' | 'side-by-side' | 'stacked';
+
+// Outline of the round PIP bubble (pip-rect is always a rounded rectangle)
+export type CamShape = 'circle' | 'rounded' | 'squircle';
+
+// Camera background effect (on-device segmentation):
+// - blur / wallpaper (the canvas background) / image replace the room behind the presenter
+// - cutout drops the PIP bubble and draws just the presenter over the screen share
+export type CamBackground = 'none' | 'blur' | 'wallpaper' | 'image' | 'cutout';
+
 export interface CanvasState {
   width: number;
   height: number;
-  bgIndex: number;
+  backgroundId: string; // entry in the background library
   usePadding: boolean;
   aspectRatio: number;
   camEnabled: boolean;
@@ -21,11 +83,149 @@ export interface CanvasState {
   camY: number;
   camSize: number;
   isFullCam: boolean; // New property
+  camLayout: CamLayout;
+  pipAspect: number; // width / height of the pip-rect box
+  splitRatio: number; // camera's share of the canvas in split layouts
+  camSide: 'left' | 'right'; // camera pane side in side-by-side
+  camShape: CamShape;
+  camBorderColor: string;
+  camBorderWidth: number; // fraction of the bubble's shorter edge, 0 = no border
+  camShadow: number; // 0..1
+  camMirror: boolean; // flip the camera horizontally, like a mirror
+  camSnap: boolean; // snap the bubble to canvas corners / safe margins while dragging
+  camBackground: CamBackground;
+  camBlur: number; // 0..1 background blur strength
   zoom: number;
   panX: number;
   panY: number;
 }
 
+// Layout part of CanvasState that a scene captures. Positions and sizes are stored as
+// fractions of the canvas (x/pan of width, y/pan of height, size of the shorter side)
+// so a scene looks the same at any output profile or aspect ratio.
+export interface SceneLayout {
+  isFullCam: boolean;
+  camEnabled: boolean;
+  camX: number;
+  camY: number;
+  camSize: number;
+  camLayout: CamLayout;
+  pipAspect: number;
+  splitRatio: number;
+  camSide: 'left' | 'right';
+  usePadding: boolean;
+  backgroundId: string;
+  bgIndex?: number; // scenes saved before the background library: index into BG_COLORS
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export interface Scene {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  layout: SceneLayout;
+}
+
+// Burned-in live captions drawn by CanvasStage. Sizes are fractions of the canvas
+// so they scale with the output resolution.
+export interface CaptionStyle {
+  enabled: boolean;
+  fontFamily: string;
+  fontScale: number; // font size as a fraction of canvas height
+  fontWeight: number;
+  textColor: string;
+  position: 'top' | 'middle' | 'bottom';
+  margin: number; // distance from the top/bottom edge, fraction of canvas height
+  maxWidth: number; // fraction of canvas width
+  maxLines: number;
+  showBackground: boolean;
+  backgroundColor: string;
+  cjkLineBreaking: boolean;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  enabled: false,
+  fontFamily: 'Inter, "PingFang SC", "Microsoft YaHei", sans-serif',
+  fontScale: 0.045,
+  fontWeight: 600,
+  textColor: '#ffffff',
+  position: 'bottom',
+  margin: 0.06,
+  maxWidth: 0.8,
+  maxLines: 2,
+  showBackground: true,
+  backgroundColor: 'rgba(0,0,0,0.6)',
+  cjkLineBreaking: true
+};
+
+// A capture source that ended underneath us (screen share stopped, device unplugged)
+export type LostSource = 'screen' | 'camera' | 'mic';
+
+// Placeholder drawn in place of a lost source so the recording never shows a frozen/black frame
+export interface SlateStyle {
+  title: string;
+  subtitle: string;
+  cameraText: string; // shown inside the PIP camera bubble
+  backgroundColor: string;
+  textColor: string;
+}
+
+export const DEFAULT_SLATE_STYLE: SlateStyle = {
+  title: "We'll be right back",
+  subtitle: 'Reconnecting source…',
+  cameraText: 'Camera offline',
+  backgroundColor: '#1d1d1f',
+  textColor: '#ffffff'
+};
+
+// Pop-out prompter window (components/PrompterWindow). Mirroring is for beam-splitter glass,
+// which shows the screen reflected.
+export interface PrompterStyle {
+  fontSize: number; // px
+  lineHeight: number; // multiple of the font size
+  textColor: string;
+  readColor: string; // words already spoken
+  backgroundColor: string;
+  readingLine: number; // where the current line sits, fraction of the window height from the top
+  mirrorHorizontal: boolean;
+  mirrorVertical: boolean;
+}
+
+export const DEFAULT_PROMPTER_STYLE: PrompterStyle = {
+  fontSize: 56,
+  lineHeight: 1.4,
+  textColor: '#ffffff',
+  readColor: '#4ade80',
+  backgroundColor: '#000000',
+  readingLine: 0.35,
+  mirrorHorizontal: false,
+  mirrorVertical: false
+};
+
+// Canvas wallpaper (see services/backgroundLibrary). Gradient stops use CSS semantics:
+// linear angles start at 12 o'clock and turn clockwise, radial gradients reach the farthest corner.
+export interface GradientStop {
+  offset: number; // 0..1
+  color: string;
+}
+
+export type ImageFit = 'cover' | 'contain' | 'blur';
+
+interface BackgroundBase {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+}
+
+export type CanvasBackground =
+  | (BackgroundBase & { kind: 'gradient'; gradient: 'linear' | 'radial'; angle: number; stops: GradientStop[] })
+  | (BackgroundBase & { kind: 'solid'; color: string })
+  // 'contain' letterboxes on fillColor; 'blur' is a soft, slightly zoomed cover
+  | (BackgroundBase & { kind: 'image'; fit: ImageFit; fillColor: string });
+
+// Built-in wallpaper gradients
 export const BG_COLORS = [
   ['#E0C3FC', '#8EC5FC'], 
   ['#FF9A9E', '#FECFEF'], 
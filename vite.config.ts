@@ -1,19 +1,37 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createTokenIssuer, TOKEN_PATH } from './server/aliyunToken.js';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Issues Aliyun ASR tokens server-side; AccessKey credentials stay out of the bundle
+    const tokenIssuer = createTokenIssuer({
+      accessKeyId: env.ALIYUN_ACCESS_KEY_ID,
+      accessKeySecret: env.ALIYUN_ACCESS_KEY_SECRET,
+      appKey: env.ALIYUN_APP_KEY,
+    });
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        {
+          name: 'aliyun-asr-token',
+          configureServer(server) {
+            server.middlewares.use(TOKEN_PATH, tokenIssuer.middleware);
+          },
+          configurePreviewServer(server) {
+            server.middlewares.use(TOKEN_PATH, tokenIssuer.middleware);
+          }
+        }
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.ALIYUN_TOKEN': JSON.stringify(env.ALIYUN_TOKEN),
+        'process.env.ALIYUN_TOKEN_ENDPOINT': JSON.stringify(env.ALIYUN_TOKEN_ENDPOINT || TOKEN_PATH),
         'process.env.ALIYUN_APP_KEY': JSON.stringify(env.ALIYUN_APP_KEY),
         'process.env.OPENROUTER_API_KEY': JSON.stringify(env.OPENROUTER_API_KEY)
       },